@@ -12,6 +12,26 @@ export interface IRestorableRecord
      */
     deletedTimestamp?: number;
 }
+/** Interface that includes the `createdTimestamp` and `updatedTimestamp` properties that stores with `timestamps` maintain */
+export interface ITimestampedRecord
+{
+    /**
+     * The `Date.now()` value at the time this record was first stored
+     */
+    createdTimestamp?: number;
+    /**
+     * The `Date.now()` value at the time this record was last stored
+     */
+    updatedTimestamp?: number;
+}
+/** Interface that includes the `revision` property that stores with the `versioned` option maintain */
+export interface IVersionedRecord
+{
+    /**
+     * The number of times this record has been stored
+     */
+    revision?: number;
+}
 /** Object that includes an `id` property and a `deletedTimestamp` property */
 export class DataRecord extends RecordBase implements IRestorableRecord
 { 
@@ -21,7 +41,7 @@ export class DataRecord extends RecordBase implements IRestorableRecord
 export type RecordProperty = string|number|boolean|Blob;
 
 /** Options for a `RecordStore` instance */
-export interface RecordStoreOptions
+export interface RecordStoreOptions<T extends RecordBase = RecordBase>
 {
     /** When calling `removeItem` or `removeItems`, if this option is `true`, this store will set those records' `deletedTimestamp`
     * property (or configured property) to the time the method was called, rather than removing the item from the store.  
@@ -29,86 +49,630 @@ export interface RecordStoreOptions
     useSoftDelete?:boolean;
     /** The name of the property to set the timestamp to, when `removeItem` or `removeItems` is called on this store. */
     softDeleteTimestampPropertyName?: string;
+    /** The number of milliseconds to keep soft-deleted records for. When set, records that were soft-deleted longer ago than this
+    * are purged from the store when it is added to a `RecordSetter`. */
+    softDeleteRetention?: number;
+    /** The relationships between this store's records and the records of other stores, keyed by the name
+    * that related records are loaded into when they are included in a read.
+    * @example { tasks: { type: 'hasMany', store: 'tasks', key: 'userId', onDelete: 'cascade' }, profile: { type: 'belongsTo', store: 'profiles', key: 'profileId' } }
+    */
+    relations?: { [name: string]: RecordRelation };
+    /** When `true`, this store sets each record's `createdTimestamp` property (or configured property) to the time it was first stored,
+    * and its `updatedTimestamp` property (or configured property) to the time it was last stored, whenever records are added, updated or restored. */
+    timestamps?: boolean;
+    /** The name of the property to set the time a record was first stored to, when `timestamps` is `true` */
+    createdTimestampPropertyName?: string;
+    /** The name of the property to set the time a record was last stored to, when `timestamps` is `true` */
+    updatedTimestampPropertyName?: string;
+    /** When `true`, this store keeps a `revision` number (or configured property) on each record, which is incremented each time it is stored.
+    * Storing a record whose revision doesn't match the stored record's revision rejects with a `VersionConflictError`, rather than overwriting changes
+    * that were made since the record was read. */
+    versioned?: boolean;
+    /** The name of the property to keep each record's revision number in, when `versioned` is `true` */
+    revisionPropertyName?: string;
+    /** The text properties of this store's records that `search` matches. Whenever a record is stored, the words in these properties
+    * are lowercased and kept in its `searchTokens` property (or configured property), which must be indexed in the schema.
+    * @example ['name', 'description']
+    */
+    search?: string[];
+    /** The name of the property to keep each record's search tokens in, when `search` is set */
+    searchTokensPropertyName?: string;
+    /** When set, records that are read by their ids with `getRecord` or `getRecords` are kept in memory, and later reads of them are served from memory.  
+    * Records are removed from the cache whenever they are changed through this store, or by another tab.
+    * @example { maxEntries: 500, ttlMs: 60000 }
+    */
+    cache?: RecordCacheOptions;
+    /** When set, the named fields of each record are encrypted with AES-GCM before they're stored, and decrypted when they're read.  
+    * Encrypted fields can't be indexed or searched, and only records read outside of a `transaction` are decrypted.
+    * @example { key: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']), fields: ['notes'] }
+    */
+    encrypt?: RecordEncryptionOptions;
+    /** The name of a table to append a `RecordChangeLogEntry` to for each change this store makes, in the same transaction as the change.  
+    * `RecordSetter` sets this for the stores it manages when its `changeLog` option is enabled. */
+    changeLogTableName?: string;
+    /** The `RecordHistory` to record the before and after images of this store's changes in, for undo and redo.  
+    * `RecordSetter` sets this for the stores it manages when its `history` option is set. */
+    history?: Pick<RecordHistory, 'record'>;
+    /** Called with each record before it is added, updated or restored, in the same transaction. Changes made to the record are saved. */
+    beforeSave?(record: T, context: RecordHookContext): void|Promise<void>;
+    /** Called with each record after it has been added, updated or restored, in the same transaction */
+    afterSave?(record: T, context: RecordHookContext): void|Promise<void>;
+    /** Called with each record before it is removed, or soft-deleted, in the same transaction */
+    beforeRemove?(record: T, context: RecordHookContext): void|Promise<void>;
+    /** Called with each record after it has been removed, or soft-deleted, in the same transaction */
+    afterRemove?(record: T, context: RecordHookContext): void|Promise<void>;
+}
+/** Details about the operation that a `RecordStoreOptions` hook is called for.  
+* Hooks run inside the operation's transaction, so if a hook throws, the operation is rolled back. Like any code that runs
+* in a transaction, hooks must only await requests made with the `transaction`; awaiting anything else lets it commit early.
+*/
+export interface RecordHookContext
+{
+    /** The name of the store the operation is running on */
+    storeName: string;
+    /** The operation that is running */
+    operation: RecordChangeOperation;
+    /** The transaction the operation is running in, for making other changes along with it */
+    transaction: RecordBackendTransaction;
+}
+/** Options for the read cache of a `RecordStore` */
+export interface RecordCacheOptions
+{
+    /** The number of records to keep in memory; once it is reached, the least recently read records are removed first. Defaults to `1000` */
+    maxEntries?: number;
+    /** The number of milliseconds that a cached record is served for, after it was read from the database. Defaults to no limit */
+    ttlMs?: number;
+}
+/** The usage of a `RecordStore`'s read cache, for tuning its `RecordCacheOptions` */
+export interface RecordCacheStats
+{
+    /** The number of records that were served from the cache */
+    hits: number;
+    /** The number of records that had to be read from the database */
+    misses: number;
+    /** The number of records that were removed to make room for others */
+    evictions: number;
+    /** The number of records that are currently cached */
+    size: number;
+    /** The number of records that the cache keeps, at most */
+    maxEntries: number;
+}
+/** Options for encrypting the fields of a `RecordStore`'s records */
+export interface RecordEncryptionOptions
+{
+    /** The AES-GCM key to encrypt the fields with */
+    key: CryptoKey;
+    /** The names of the fields to encrypt. Their values must be `Blob`s, or values that can be represented in JSON */
+    fields: string[];
+}
+/** The form that encrypted values are stored in */
+export interface RecordEncryptedValue
+{
+    /** The algorithm the value was encrypted with */
+    $encrypted: 'AES-GCM';
+    /** The initialization vector the value was encrypted with, in base64 */
+    iv: string;
+    /** The encrypted value, in base64 */
+    data: string;
+    /** The MIME type of the value, if it was a `Blob` */
+    blobType?: string;
+}
+/** A relationship between the records of one store and the records of another */
+export interface RecordRelation
+{
+    /** `hasMany` if the related records refer to this store's records, or `belongsTo` if this store's records refer to a related record */
+    type: 'hasMany'|'belongsTo';
+    /** The name of the related store */
+    store: string;
+    /** For `hasMany` relations, the property of the related records that holds this record's id.  
+    * For `belongsTo` relations, the property of this store's records that holds the related record's id. */
+    key: string;
+    /** What happens to the related records of a `hasMany` relation when a record is removed:
+    * `cascade` removes them too, `restrict` prevents the record from being removed while it has any,
+    * and `none` (the default) leaves them as they are. */
+    onDelete?: 'cascade'|'restrict'|'none';
+}
+/** Options for reading `Record`s */
+export interface RecordReadOptions
+{
+    /** The names of relations to load into each record that is read, from the store's `relations` option */
+    include?: string[];
+    /** When `true`, soft-deleted records are read along with the rest. By default, stores that use soft delete leave them out. */
+    includeDeleted?: boolean;
+    /** When `true`, only soft-deleted records are read */
+    onlyDeleted?: boolean;
+}
+/** Options for purging soft-deleted `Record`s */
+export interface RecordPurgeOptions
+{
+    /** Only purge records that were soft-deleted before this time, as a `Date` or a timestamp in milliseconds.
+    * When omitted, every soft-deleted record is purged. */
+    olderThan?: Date|number;
+}
+/** Options for writing changes that were made somewhere else, with `applyChanges` */
+export interface RecordApplyOptions
+{
+    /** `false` to leave the changes out of the change log, when they came from it. Defaults to `true` */
+    isLogged?: boolean;
+}
+/** Changes to make to a stored `Record` with `patchRecord`, keyed by property name, or by a dotted path to a nested property.
+* Properties that are set to `undefined` are removed.
+* @example { title: 'Renamed', 'address.city': 'Oslo' }
+*/
+export type RecordPatch<T extends RecordBase = RecordBase> = { [P in keyof T]?: T[P] } & { [path: string]: unknown };
+/** The progress of a `bulkImport`, reported after each chunk */
+export interface RecordImportProgress
+{
+    /** The index of the chunk that was just written, starting at `0` */
+    chunk: number;
+    /** The number of records in the chunk */
+    count: number;
+    /** The number of records that have been imported so far */
+    imported: number;
+    /** The number of records that have failed to import so far */
+    failed: number;
+    /** The error the chunk failed with, if it failed; none of its records were imported */
+    error?: Error;
+}
+/** A chunk of a `bulkImport` that failed to import */
+export interface RecordImportFailure
+{
+    /** The index of the chunk, starting at `0` */
+    chunk: number;
+    /** The ids of the records in the chunk */
+    ids: string[];
+    /** The error the chunk failed with */
+    error: Error;
+}
+/** Options for `RecordStore.bulkImport` */
+export interface RecordImportOptions
+{
+    /** The number of records to write in each transaction. Defaults to `500` */
+    chunkSize?: number;
+    /** Called after each chunk has been written, or has failed */
+    onProgress?(progress: RecordImportProgress): void;
+    /** Cancels the import as soon as it is aborted, without waiting for the next record or the chunk being written.  
+    * The chunks that have already been written are kept, and the chunk being written may still be committed. */
+    signal?: AbortSignal;
+}
+/** The outcome of a `bulkImport` */
+export interface RecordImportResult
+{
+    /** The number of records that were imported */
+    imported: number;
+    /** The number of records that failed to import */
+    failed: number;
+    /** The chunks that failed to import, and why */
+    failures: RecordImportFailure[];
+}
+/** Comparison operators that can be used in place of a value in a query predicate, to match a range of values.
+* When the queried property is indexed, the operators are applied as an `IDBKeyRange` on the index.
+* @example { order: { $gt: 3, $lte: 10 } }
+*/
+export interface RecordQueryOperators<V = unknown>
+{
+    /** Match values greater than this value */
+    $gt?: V;
+    /** Match values greater than, or equal to, this value */
+    $gte?: V;
+    /** Match values less than this value */
+    $lt?: V;
+    /** Match values less than, or equal to, this value */
+    $lte?: V;
+    /** Match values between the two values, including the values themselves */
+    $between?: [V, V];
+    /** Match `string` values that start with this value */
+    $startsWith?: string;
+}
+/** The value of a single property in a query predicate: a value to match, an array of values to match any of, or a `RecordQueryOperators` object */
+export type RecordQueryCondition<V = unknown> = V|V[]|RecordQueryOperators<V>;
+/** An object with properties that match the names of properties to match on a store's `Record`s.
+* Each value is either a value to match, an array of values to match any of, or a `RecordQueryOperators` object.  
+* When the store's indexed properties are known, from a typed schema, only those properties can be matched,
+* and their values are checked against the properties of the store's `Record` type.
+* @template T the store's `Record` type
+* @template K the names of the store's indexed properties
+*/
+export type RecordQueryPredicate<T extends RecordBase = RecordBase, K extends string = string> = string extends K
+    ? { [key: string]: unknown; }
+    // indexed properties that `T` doesn't declare accept any value; an intersection keeps `T` covariant, unlike `keyof T`
+    : { [P in K]?: RecordQueryCondition<(T & { [Q in K]?: unknown })[P]> };
+/** A property to sort `Record`s by, and the direction to sort them in */
+export interface RecordSortKey
+{
+    /** The name of the property to sort by */
+    key: string;
+    /** The direction to sort in; defaults to `'asc'` */
+    direction?: 'asc'|'desc';
+}
+/** How to sort `Record`s: the name of a property to sort by in ascending order, a `RecordSortKey`,
+* or an array of either, where each key after the first breaks ties in the keys before it.
+* @example [{ key: 'name', direction: 'desc' }, 'order']
+*/
+export type RecordSort = string|RecordSortKey|(string|RecordSortKey)[];
+/** Options for reading a portion of the `Record`s that a read would return */
+export interface RecordRangeOptions
+{
+    /** The maximum number of records to return */
+    limit?: number;
+    /** The number of records to skip before returning records */
+    offset?: number;
+}
+/** Options for reading the `Record`s that match a query */
+export interface RecordQueryOptions extends RecordRangeOptions, RecordReadOptions { }
+/** Options for searching `Record`s */
+export interface RecordSearchOptions extends RecordQueryOptions
+{
+    /** When `true`, each word of the search text also matches words that start with it */
+    prefix?: boolean;
+}
+/** The summaries that `RecordStore.groupBy` calculates for each group */
+export interface RecordAggregateOptions
+{
+    /** When `true`, count the records in each group */
+    count?: boolean;
+    /** The `number` properties to total for each group */
+    sum?: string|string[];
+    /** The `number` properties to average for each group */
+    avg?: string|string[];
+    /** The properties to find the lowest value of for each group */
+    min?: string|string[];
+    /** The properties to find the highest value of for each group */
+    max?: string|string[];
+}
+/** A group of `Record`s that share a value, and the summaries that were calculated for it */
+export interface RecordGroup<V = unknown>
+{
+    /** The value that the group's records share */
+    key: V;
+    /** The number of records in the group */
+    count?: number;
+    /** The total of each `sum` property, keyed by property name */
+    sum?: { [property: string]: number };
+    /** The average of each `avg` property, keyed by property name, or `null` if no record in the group has a `number` value for it */
+    avg?: { [property: string]: number|null };
+    /** The lowest value of each `min` property, keyed by property name */
+    min?: { [property: string]: unknown };
+    /** The highest value of each `max` property, keyed by property name */
+    max?: { [property: string]: unknown };
+}
+/** The type of a property of a `Record`, or `unknown` if the `Record` type doesn't declare it */
+export type RecordPropertyValue<T extends RecordBase, P extends string> = (T & { [Q in P]?: unknown })[P];
+/** Options for reading a page of `Record`s */
+export interface RecordPageOptions extends RecordQueryOptions
+{
+    /** The `next` token of a previous page; records are read starting after the last record of that page */
+    after?: string|null;
+}
+/** A page of `Record`s, read by `RecordStore.getPage` */
+export interface RecordPage<T>
+{
+    /** The records in this page */
+    records: T[];
+    /** A token to pass as the `after` option to get the next page, or `null` if there are no more records */
+    next: string|null;
+}
+/** The context of the operation that raised a `RecordSetterError` */
+export interface RecordSetterErrorDetails
+{
+    /** The name of the store the operation was using */
+    storeName?: string;
+    /** The name of the operation that failed, like `'get'`, `'put'` or `'delete'` */
+    operation?: string;
+    /** The key, or keys, that the operation was using */
+    key?: unknown;
+    /** The `DOMException` that indexedDB raised, if the error came from indexedDB */
+    domException?: DOMException|null;
+}
+/** The base class of every error that `RecordSetter` and its stores reject with */
+export class RecordSetterError extends Error
+{
+    /** The name of the store the operation was using */
+    storeName?: string;
+    /** The name of the operation that failed */
+    operation?: string;
+    /** The key, or keys, that the operation was using */
+    key?: unknown;
+    /** The `DOMException` that indexedDB raised, if the error came from indexedDB */
+    domException?: DOMException;
+
+    /**
+     * The base class of every error that `RecordSetter` and its stores reject with
+     * @param message a description of the error
+     * @param details the store, operation, key and `DOMException` the error was raised by
+     */
+    constructor(message: string, details: RecordSetterErrorDetails = {})
+    {
+        super(message, { cause: details.domException ?? undefined });
+        this.name = 'RecordSetterError';
+        this.storeName = details.storeName;
+        this.operation = details.operation;
+        this.key = details.key;
+        this.domException = details.domException ?? undefined;
+    }
+
+    /**
+     * Convert the `error` event of an `IDBRequest` or `IDBTransaction`, or a `DOMException`, to the matching `RecordSetterError`.  
+     * Errors that are already `Error`s, like errors thrown by hooks or migrations, are returned as they are.
+     * @param error the event, exception or error to convert
+     * @param details the store, operation and key that raised the error
+     * @returns a `ConstraintViolationError`, `QuotaExceededError`, `TransactionAbortedError` or `StoreNotFoundError` when the `DOMException` matches one, otherwise a `RecordSetterError`
+     */
+    static from(error: unknown, details: RecordSetterErrorDetails = {}): Error
+    {
+        // events are detected by their target, rather than with instanceof, so that indexedDB polyfills are supported
+        const event = (error != null && typeof error == 'object' && 'target' in error) ? error as Event : null;
+        // a transaction that was aborted by calling abort() has no error of its own
+        const isAbort = event?.type == 'abort';
+        if(event != null)
+        {
+            const target = event.target as RecordBackendRequest|RecordBackendTransaction|null;
+            error = target?.error ?? null;
+        }
+        if(error instanceof Error && !(error instanceof DOMException)) { return error; }
+
+        const domException = (error instanceof DOMException) ? error : null;
+        const storeName = (details.storeName == null) ? '' : ` in the "${details.storeName}" store`;
+        const operation = (details.operation == null) ? 'operation' : `"${details.operation}" operation`;
+        const reason = (domException == null) ? '' : `: ${domException.message}`;
+        const message = `The ${operation}${storeName} failed${reason}`;
+        details = { ...details, domException };
+
+        switch(domException?.name)
+        {
+            case 'ConstraintError': return new ConstraintViolationError(message, details);
+            case 'QuotaExceededError': return new QuotaExceededError(message, details);
+            case 'AbortError': return new TransactionAbortedError(message, details);
+            case 'NotFoundError': return new StoreNotFoundError(details.storeName ?? '', details);
+            default: return isAbort ? new TransactionAbortedError(message, details) : new RecordSetterError(message, details);
+        }
+    }
+}
+/** The error that operations reject with when they are used before the database has been opened, or after it has been closed or deleted */
+export class DatabaseNotOpenError extends RecordSetterError
+{
+    constructor(details: RecordSetterErrorDetails = {})
+    {
+        super("The database has not been opened.", details);
+        this.name = 'DatabaseNotOpenError';
+    }
+}
+/** The error that operations reject with when they target a store that hasn't been declared in the database's schema */
+export class StoreNotFoundError extends RecordSetterError
+{
+    constructor(storeName: string, details: RecordSetterErrorDetails = {})
+    {
+        super(`Store could not be found by name: ${storeName}`, { ...details, storeName });
+        this.name = 'StoreNotFoundError';
+    }
+}
+/** The error that operations reject with when a write breaks a constraint, like a duplicate key in a `unique` index, or a relation's `restrict` rule */
+export class ConstraintViolationError extends RecordSetterError
+{
+    constructor(message: string, details: RecordSetterErrorDetails = {})
+    {
+        super(message, details);
+        this.name = 'ConstraintViolationError';
+    }
+}
+/** The error that operations reject with when the browser has run out of storage for the database */
+export class QuotaExceededError extends RecordSetterError
+{
+    constructor(message: string, details: RecordSetterErrorDetails = {})
+    {
+        super(message, details);
+        this.name = 'QuotaExceededError';
+    }
+}
+/** The error that operations reject with when their transaction was aborted before it could complete */
+export class TransactionAbortedError extends RecordSetterError
+{
+    constructor(message: string, details: RecordSetterErrorDetails = {})
+    {
+        super(message, details);
+        this.name = 'TransactionAbortedError';
+    }
+}
+/** The error that a `versioned` store rejects with when a record is stored with a revision that doesn't match the stored record's revision,
+* because the record was changed after it was read. */
+export class VersionConflictError<T extends RecordBase = RecordBase> extends RecordSetterError
+{
+    declare storeName: string;
+    /** The record as it is currently stored, including the changes that would have been overwritten */
+    currentRecord: T;
+
+    /**
+     * The error that a `versioned` store rejects with when a record has been changed since it was read
+     * @param storeName the name of the store the record is in
+     * @param currentRecord the record as it is currently stored
+     */
+    constructor(storeName: string, currentRecord: T)
+    {
+        super(`The "${currentRecord.id}" record in the "${storeName}" store has been changed since it was read.`, { storeName, operation: 'put', key: currentRecord.id });
+        this.name = 'VersionConflictError';
+        this.currentRecord = currentRecord;
+    }
 }
 /** Manages `Record`-type objects of a single type, `T`, in the target `IDBDatabase` connection. */
-export class RecordStore<T extends RecordBase = RecordBase>
+export class RecordStore<T extends RecordBase = RecordBase, K extends string = string>
 {
-    #database: IDBDatabase;
+    /** The property names that can't be part of a patch path, since they reach an object's prototype */
+    static readonly #unsafePathNames = ['__proto__', 'constructor', 'prototype'];
+
+    #database: RecordBackendDatabase;
+    #backend: RecordSetterBackend;
 
     #storeName: string;
     #tables: string[];
     
+    #options?: RecordStoreOptions<T>;
+    #transaction?: RecordBackendTransaction;
+    #listeners: Set<RecordChangeListener> = new Set();
+    #cache?: RecordCache;
+    #cipher?: RecordCipher;
+    #encryptedFields: string[] = [];
+    #changeLogTableName?: string;
+    #resolveStore?: (name: string) => RecordStore<RecordBase>|undefined;
+
     #useSoftDelete: boolean = false;
     #softDeleteTimestampPropertyName: string = "deletedTimestamp";
 
+    #useTimestamps: boolean = false;
+    #createdTimestampPropertyName: string = "createdTimestamp";
+    #updatedTimestampPropertyName: string = "updatedTimestamp";
+
+    #useRevisions: boolean = false;
+    #revisionPropertyName: string = "revision";
+
+    #searchPropertyNames: string[] = [];
+    #searchTokensPropertyName: string = "searchTokens";
+
+    /** The purge of expired soft-deleted records that `addStore` starts for stores with the `softDeleteRetention` option.  
+    * Resolves with the ids of the purged records, or rejects if the purge failed; `null` for stores that aren't purged when they're added. */
+    retentionPurge: Promise<string[]>|null = null;
+
     /**
      * Manages `Record`-type objects of a single type, `T`, in the target `IDBDatabase` connection.
      * @example new RecordStore<ParentRecord>(database, 'parents', ['parents', 'children', 'grandchildren'], { useSoftDelete: true }); 
      * @template T an object that extends `RecordBase`, to be managed by the store.
-     * @param database and open `IDBDatabase` connection
+     * @template K the names of the store's indexed properties, which limit the properties that `query` can match
+     * @param database an open `IDBDatabase` connection, or a connection from another `RecordSetterBackend`
      * @param storeName the name to reference this store by
      * @param tables the names of all tables that this store will share transactions with.  
      * Transactions are shared in `Promise` scopes, so most `async`/`await` calls that will
      * unite record data from different tables require shared scopes.
      * @param options target `RecordStoreOptions` values
+     * @param resolveStore a function that provides the other stores that this store's relations refer to, by name.  
+     * Stores that it does not provide are used without any options.
+     * @param backend the `RecordSetterBackend` that the database connection was opened with; defaults to an `IndexedDBBackend`
      */
-    constructor(database: IDBDatabase, storeName: string, tables: string[], options?: RecordStoreOptions)
+    constructor(database: RecordBackendDatabase, storeName: string, tables: string[], options?: RecordStoreOptions<T>, resolveStore?: (name: string) => RecordStore<RecordBase>|undefined, backend: RecordSetterBackend = new IndexedDBBackend())
     {
         this.#database = database;
+        this.#backend = backend;
         this.#storeName = storeName;
         this.#tables = tables;
+        this.#options = options;
+        this.#resolveStore = resolveStore;
 
         if(options != null)
         {
             this.#useSoftDelete = options.useSoftDelete || this.#useSoftDelete;
             this.#softDeleteTimestampPropertyName = options.softDeleteTimestampPropertyName || this.#softDeleteTimestampPropertyName;
+            this.#useTimestamps = options.timestamps || this.#useTimestamps;
+            this.#createdTimestampPropertyName = options.createdTimestampPropertyName || this.#createdTimestampPropertyName;
+            this.#updatedTimestampPropertyName = options.updatedTimestampPropertyName || this.#updatedTimestampPropertyName;
+            this.#useRevisions = options.versioned || this.#useRevisions;
+            this.#revisionPropertyName = options.revisionPropertyName || this.#revisionPropertyName;
+            this.#searchPropertyNames = options.search ?? this.#searchPropertyNames;
+            this.#searchTokensPropertyName = options.searchTokensPropertyName || this.#searchTokensPropertyName;
+            if(options.cache != null) { this.#cache = new RecordCache(options.cache); }
+            if(options.encrypt != null)
+            {
+                this.#cipher = new RecordCipher(options.encrypt.key);
+                this.#encryptedFields = options.encrypt.fields;
+            }
+            if(options.changeLogTableName != null)
+            {
+                // changes are logged in the transactions that make them
+                this.#changeLogTableName = options.changeLogTableName;
+                if(!tables.includes(options.changeLogTableName)) { this.#tables = [...tables, options.changeLogTableName]; }
+            }
         }
     }
 
     /**
-     * Open a transaction in the database for handling this store's `Record`s
+     * Open a transaction in the database for handling this store's `Record`s.  
+     * If this store is bound to a transaction, that transaction is returned instead.
      * @param transactionMode "readonly" | "readwrite" | "versionchange"
      * @returns IDBTransaction
      */
     openTransaction(transactionMode: IDBTransactionMode = 'readwrite')
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        return this.#database.transaction(this.#tables, transactionMode);
+        if(this.#transaction != null) { return this.#transaction; }
+        const details = { storeName: this.#storeName, operation: 'transaction', key: this.#tables };
+        if(this.#database == null) { throw new DatabaseNotOpenError(details); }
+        try
+        {
+            return this.#database.transaction(this.#tables, transactionMode);
+        }
+        catch(error)
+        {
+            // transactions can't be opened once the connection has been closed
+            if(error instanceof DOMException && error.name == 'InvalidStateError') { throw new DatabaseNotOpenError(details); }
+            if(error instanceof DOMException && error.name == 'NotFoundError')
+            {
+                const missingName = this.#tables.find(name => !this.#database.objectStoreNames.contains(name)) ?? this.#storeName;
+                throw new StoreNotFoundError(missingName, { ...details, domException: error });
+            }
+            throw RecordSetterError.from(error, details);
+        }
+    }
+    /**
+     * Create a copy of this store whose operations all run in the target transaction, rather than opening their own.  
+     * The copy does not commit or abort the transaction; that is left to whatever opened it.
+     * @param transaction an active transaction whose scope includes this store
+     * @returns a new `RecordStore` instance, with the same options as this one, bound to the transaction
+     */
+    withTransaction(transaction: RecordBackendTransaction)
+    {
+        const store = new RecordStore<T, K>(this.#database, this.#storeName, this.#tables, this.#options, this.#resolveStore, this.#backend);
+        store.#transaction = transaction;
+        // changes made in the transaction are reported to this store's subscribers
+        store.#listeners = this.#listeners;
+        // changes made in the transaction invalidate this store's cache, though reads in the transaction don't use it
+        store.#cache = this.#cache;
+        store.#cipher = this.#cipher;
+        return store;
     }
 
     /**
-     * Add a record to the database
+     * Add a record to the database; unlike `upsertRecord`, it never replaces a stored record
      * @template T the store's `Record` type
      * @param record the record to add
-     * @returns `boolean` to indicate a successful add
+     * @returns `boolean` to indicate a successful add; rejects with a `ConstraintViolationError` if a record with the same id is already stored
      */
     async addRecord(record: T): Promise<boolean>
     {
-        await this.updateRecord(record);
+        await this.#updateRecord(record, 'add');
         return true;
     }
     /**
-     * Add multiple records to the database
+     * Add multiple records to the database, in a single transaction; if any of them is already stored, none of them are added
      * @template T the store's `Record` type
      * @param records the records to add
-     * @returns `boolean[]` to indicate a successful adds, by index
+     * @returns `boolean[]` to indicate a successful adds, by index; rejects with a `ConstraintViolationError` if a record with the same id is already stored
      */
     async addRecords(records: T[]): Promise<boolean[]>
     {
-        return (await this.updateRecords(records)).map(item => item != null);
+        return (await this.#updateRecords(records, 'add')).map(item => item != null);
     }
 
     /**
      * Get a record from the database, by its id
      * @template T the store's `Record` type
      * @param id the id of the record to retrieve
-     * @returns the `Record` or `null`
+     * @param options `RecordReadOptions` values, like the relations to `include`, or whether to read soft-deleted records
+     * @returns the `Record` or `null`, if it doesn't exist or has been soft-deleted
      */
-    getRecord(id: string):  Promise<T | null>
+    async getRecord(id: string, options?: RecordReadOptions):  Promise<T | null>
     {
-        return new Promise((resolve, reject) =>
+        const cache = this.#getReadCache(options);
+        if(cache != null)
+        {
+            const cached = cache.get(id) as T|undefined;
+            if(cached != null && !this.#createDeletedFilter(options)(cached)) { return null; }
+            if(cached != null)
+            {
+                await this.#decryptRecords([cached]);
+                return cached;
+            }
+        }
+        const generation = cache?.generation;
+
+        const transaction = this.#openReadTransaction(options?.include);
+        const record = await new Promise<T|null>((resolve, reject) =>
         {
-            const transaction = this.openTransaction('readonly');
             const objectStore = transaction.objectStore(this.#storeName);
             const request = objectStore.get(id);
             request.onsuccess = (event: Event) =>
@@ -116,1069 +680,6238 @@ export class RecordStore<T extends RecordBase = RecordBase>
                 const value = (event.target as unknown as { result: T|null }).result;
                 resolve(value);
             }
-            request.onerror = (event: Event) => { reject(event); }
+            request.onerror = (event: Event) => { reject(this.#toError(event, 'get', id)); }
         });
 
+        if(record != null) { cache?.set(id, record, generation!); }
+        if(record == null || !this.#createDeletedFilter(options)(record)) { return null; }
+        if(options?.include != null)
+        {
+            await this.#loadRelations(transaction, [record], options.include);
+        }
+        // records are decrypted once the transaction is no longer needed, since decrypting them lets it commit
+        await this.#decryptRecords([record], options?.include);
+        return record;
     }
     /**
      * Get records from the database, by their ids
      * @template T the store's `Record` type
      * @param ids the ids of the records to retrieve
-     * @param sortKey a property of the records to use as key for sorting them by
+     * @param sortKey a property of the records to use as key for sorting them by, or a `RecordSort` describing multiple keys and directions
+     * @param options `RecordReadOptions` values, like whether to read soft-deleted records
      * @returns an array of the requested `Record`s
      */
-    async getRecords(ids: string[], sortKey?: string):  Promise<T[]>
+    async getRecords(ids: string[], sortKey?: RecordSort, options?: RecordReadOptions):  Promise<T[]>
     {
-        const transaction = this.openTransaction('readonly');
-        const promises = [];
-        for(let i = 0; i < ids.length; i++)
+        const values = await this.#getStoredRecords(ids, this.#getReadCache(options));
+        const isVisible = this.#createDeletedFilter(options);
+        let records: T[] = (values as T[]).filter(record => record == null || isVisible(record));
+        const sortKeys = this.#parseSort(sortKey);
+        if(sortKeys.length > 0)
         {
-            const id = ids[i];
-            promises.push(new Promise<T>((resolve, reject) =>
-            {
-                const objectStore = transaction.objectStore(this.#storeName);
-                const request = objectStore.get(id);
-                request.onsuccess = (event: Event) =>
-                {
-                    const value: T = (event.target as unknown as { result: T }).result;
-                    resolve(value);
-                }
-                request.onerror = (event: Event) => { reject(event); }
-            }));
+            records = records.sort(this.#createRecordComparer(sortKeys));
         }
-
-        let records: T[] = await Promise.all(promises);
-        if(sortKey != null)
+        await this.#decryptRecords(records);
+        return records;
+    }
+    /**
+     * Read records by their ids, from the cache if they're in it, and otherwise from the database
+     * @param ids the ids of the records to read
+     * @param cache the cache to serve the records from, and to add the records that are read from the database to
+     * @returns the records, by index; `undefined` for records that don't exist
+     */
+    async #getStoredRecords(ids: string[], cache?: RecordCache)
+    {
+        const generation = cache?.generation;
+        const values = ids.map(id => cache?.get(id) as T|undefined);
+        // only the records that aren't cached are read from the database
+        const missingIndexes = ids.map((_id, index) => index).filter(index => values[index] == null);
+        if(cache == null || missingIndexes.length > 0)
         {
-            /* @ts-expect-error Provided sort key may not be able to index into record */
-            records = records.sort((a, b) => { return a[sortKey] - b[sortKey]; });
+            const transaction = this.openTransaction('readonly');
+            const promises = [];
+            for(const index of missingIndexes)
+            {
+                const id = ids[index];
+                promises.push(new Promise<void>((resolve, reject) =>
+                {
+                    const objectStore = transaction.objectStore(this.#storeName);
+                    const request = objectStore.get(id);
+                    request.onsuccess = (event: Event) =>
+                    {
+                        const value: T = (event.target as unknown as { result: T }).result;
+                        values[index] = value;
+                        if(value != null) { cache?.set(id, value, generation!); }
+                        resolve();
+                    }
+                    request.onerror = (event: Event) => { reject(this.#toError(event, 'get', id)); }
+                }));
+            }
+            await Promise.all(promises);
         }
-        return records;
+        return values;
     }
     /**
      * Get all records of this store's type
      * @template T the store's `Record` type
-     * @param sortKey a property of the records to use as key for sorting them by
+     * @param sortKey a property of the records to use as key for sorting them by, or a `RecordSort` describing multiple keys and directions
+     * @param options `limit` and `offset` values, to only get a portion of the records, the relations to `include`, and whether to read soft-deleted records
      * @returns an array of all `Record`s that this store manages.
      */
-    async getAllRecords(sortKey?: string): Promise<T[]>
+    async getAllRecords(sortKey?: RecordSort, options?: RecordQueryOptions): Promise<T[]>
     {
-        return new Promise((resolve, reject) =>
+        if(sortKey != null || options != null)
+        {
+            return this.query({}, sortKey, options);
+        }
+        const isVisible = this.#createDeletedFilter();
+        const records = await new Promise<T[]>((resolve, reject) =>
         {
             const transaction = this.openTransaction('readonly')
             const objectStore = transaction.objectStore(this.#storeName);
             const request = objectStore.getAll();
             request.onsuccess = (event: Event) =>
             {
-                let value: T[] = (event.target as unknown as { result: T[] }).result;
-                if(sortKey != null)
-                {
-                    /* @ts-expect-error Provided sort key may not be able to index into record */
-                    value = value.sort((a, b) => { return a[sortKey] - b[sortKey]; });
-                }
-                resolve(value);
+                const value: T[] = (event.target as unknown as { result: T[] }).result;
+                resolve(value.filter(isVisible));
             }
-            request.onerror = (event: Event) => { reject(event); }
+            request.onerror = (event: Event) => { reject(this.#toError(event, 'getAll')); }
         });
+        await this.#decryptRecords(records);
+        return records;
     }
     /**
-     * Find all `Record`s of this store's type that match the equality predicate
+     * Find all `Record`s of this store's type that match the predicate
      * @example store.query({ name: 'User Name' }, 'name');
+     * @example store.query({ order: { $gt: 3, $lte: 10 } }, 'order');
      * @template T the store's `Record` type
      * @param equalityPredicate an object with properties that match the names of properties  
      to match on the `Record`s managed by this store, and values  
      that match the values of `Record`s being requested.  
-     ***Query properties must be indexed to be able to be queried.**
-     * @param sortKey a property of the records to use as key for sorting them by
-     * @returns an array of the `Record`s that match the equality predicate
+     Values may also be an array of values to match any of, or a `RecordQueryOperators` object to match a range of values.  
+     ***Query properties should be indexed to be able to be queried efficiently.**
+     * @param sortKey a property of the records to use as key for sorting them by, or a `RecordSort` describing multiple keys and directions.  
+     When the first sort key is indexed, records are read in index order, rather than being sorted after they have all been read.
+     * @param options `limit` and `offset` values, to only get a portion of the matching records, the relations to `include`, and whether to read soft-deleted records
+     * @returns an array of the `Record`s that match the predicate
      */
-    async query(equalityPredicate: { [key: string]: unknown; }, sortKey?: string | undefined):Promise<T[]>
+    async query(equalityPredicate: RecordQueryPredicate<T, K>, sortKey?: RecordSort, options?: RecordQueryOptions):Promise<T[]>
     {
-        return new Promise((resolve, reject) =>
+        const transaction = this.#openReadTransaction(options?.include);
+        const sortKeys = this.#parseSort(sortKey);
+        let records: T[];
+        if(sortKeys.length == 0)
         {
-            const transaction = this.openTransaction('readonly');
-            const objectStore = transaction.objectStore(this.#storeName);
-
-            const predicateKeys = Object.keys(equalityPredicate);
-            const predicateValues = Object.values(equalityPredicate);
-
-            const hasMultiplePredicates = predicateKeys.length > 1;
+            const plan = this.#createQueryPlan(transaction.objectStore(this.#storeName), equalityPredicate, undefined, options);
+            const page = await this.#readRecords(transaction, plan, options);
+            records = page.records;
+        }
+        else
+        {
+            records = await this.#readSortedRecords(transaction, equalityPredicate, sortKeys, options);
+        }
 
-            
-            let cursorParent = null;
-            if(hasMultiplePredicates)
+        if(options?.include != null)
+        {
+            await this.#loadRelations(transaction, records, options.include);
+        }
+        await this.#decryptRecords(records, options?.include);
+        return records;
+    }
+    /**
+     * Get a page of the `Record`s of this store's type that match the predicate.  
+     * Pages are read in the order of the index used to match the predicate (or by id, if no index is used),
+     * and can be resumed from the `next` token of the previous page.
+     * @example const first = await store.getPage({ userId }, { limit: 50 });
+     * const second = await store.getPage({ userId }, { limit: 50, after: first.next });
+     * @template T the store's `Record` type
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to page through all records
+     * @param options `limit`, `offset`, and `after` values that describe the page to get, the relations to `include`, and whether to read soft-deleted records
+     * @returns the `Record`s in the page, and a token for getting the page after it
+     */
+    async getPage(predicate?: RecordQueryPredicate<T, K>|null, options?: RecordPageOptions): Promise<RecordPage<T>>
+    {
+        const transaction = this.#openReadTransaction(options?.include);
+        const plan = this.#createQueryPlan(transaction.objectStore(this.#storeName), predicate ?? {}, undefined, options);
+        const page = await this.#readRecords(transaction, plan, options);
+        if(options?.include != null)
+        {
+            await this.#loadRelations(transaction, page.records, options.include);
+        }
+        await this.#decryptRecords(page.records, options?.include);
+        return page;
+    }
+    /**
+     * Iterate over the `Record`s of this store's type that match the predicate, reading one record at a time from a cursor.  
+     * The cursor's transaction can only stay open while nothing but indexedDB requests are awaited, so if the loop
+     * awaits anything else between records, the cursor is re-opened after the last record that was read.
+     * @example for await (const image of store.iterate({ parentId })) { [...] }
+     * @template T the store's `Record` type
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to iterate over all records
+     * @param options `RecordReadOptions` values, like whether to read soft-deleted records
+     * @returns an `AsyncIterable` of the matching `Record`s
+     */
+    async *iterate(predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): AsyncGenerator<T, void, undefined>
+    {
+        let after: string|null = null;
+        while(true)
+        {
+            const transaction = this.openTransaction('readonly');
+            const plan = this.#createQueryPlan(transaction.objectStore(this.#storeName), predicate ?? {}, undefined, options);
+            const reader = this.#openRecordCursor(plan, after);
+            while(true)
             {
+                let cursor: RecordBackendCursorWithValue|null;
                 try
                 {
-                    const indexKey = predicateKeys.join('+');
-                    cursorParent = objectStore.index(indexKey);
+                    cursor = await reader.next();
                 }
-                catch(_){ /* error does not need additional handling */ }
-            }
+                catch(error)
+                {
+                    // the transaction finished while the caller was busy; resume with a new one
+                    if(error instanceof DOMException && error.name == 'TransactionInactiveError') { break; }
+                    throw error;
+                }
+                if(cursor == null) { return; }
 
-            const hasCombinedPredicate = cursorParent != null;
-            
-            if(cursorParent == null)
-            {
-                const predicateKey = predicateKeys[0];
-                cursorParent =(predicateKey == 'id') ? objectStore : objectStore.index(predicateKey);
+                after = this.#encodeCursorToken(cursor);
+                // decrypting the record lets the transaction finish, in which case the cursor is re-opened after it
+                const record = cursor.value as T;
+                await this.#decryptRecords([record]);
+                yield record;
             }
+        }
+    }
+    /**
+     * Find the `Record`s whose `search` properties contain the words of the search text, ranked by how many of the words they match.  
+     * Records that match a word exactly rank above records that only match its prefix.
+     * @example await store.search('test usr', { prefix: true, limit: 20 });
+     * @template T the store's `Record` type
+     * @param text the text to search for
+     * @param options `limit` and `offset` values, to only get a portion of the ranked records, whether to match `prefix`es, the relations to `include`, and whether to read soft-deleted records
+     * @returns the matching `Record`s, best matches first
+     */
+    async search(text: string, options?: RecordSearchOptions): Promise<T[]>
+    {
+        const words = this.#tokenize([text]);
+        if(words.length == 0) { return []; }
 
-            const predicateValue = (predicateValues == null) ? null : (hasCombinedPredicate) ? predicateValues : predicateValues[0];
+        const transaction = this.#openReadTransaction(options?.include);
+        const objectStore = transaction.objectStore(this.#storeName);
+        if(!objectStore.indexNames.contains(this.#searchTokensPropertyName))
+        {
+            throw new RecordSetterError(`The "${this.#storeName}" store can't be searched until "${this.#searchTokensPropertyName}" is indexed in its schema.`, { storeName: this.#storeName, operation: 'search' });
+        }
+        const index = objectStore.index(this.#searchTokensPropertyName);
 
-            let request;
-            let skipFirstPredicate = false;
-            if(!hasCombinedPredicate && Array.isArray(predicateValue))
-            {
-                request = cursorParent.openCursor();
-            }
-            else
+        const scores = new Map<string, number>();
+        for(const word of words)
+        {
+            const matches = new Map<string, number>();
+            const exactIds = await this.#request<string[]>(index.getAllKeys(this.#backend.only(word)), 'search', word);
+            exactIds.forEach(id => matches.set(id, 1));
+            if(options?.prefix == true)
             {
-                skipFirstPredicate = true;
-                request = cursorParent.openCursor(IDBKeyRange.only(predicateValue));
+                // a record can have several tokens with the same prefix, but only counts once for each word
+                const prefixIds = await this.#request<string[]>(index.getAllKeys(this.#backend.bound(word, word + '\uffff')), 'search', word);
+                prefixIds.forEach(id => { if(!matches.has(id)) { matches.set(id, 0.5); } });
             }
+            matches.forEach((score, id) => scores.set(id, (scores.get(id) ?? 0) + score));
+        }
 
-            const results: T[] = [];
-            request.onsuccess = (event: Event) =>
-            {
-                const currentCursor = (event.target as unknown as { result: { value: T, continue: () => void } }).result;
-                
-                if(currentCursor == null) 
-                { 
-                    let values = results;
-                    if(sortKey != null)
-                    {
-                        /* @ts-expect-error Provided sort key may not be able to index into record */
-                        values = results.toSorted((a, b) => a[sortKey] - b[sortKey]); 
-                    }
-                    resolve(values);
-                    return; 
-                }
+        // the sort is stable, so records with the same score stay in the order they were matched in
+        const rankedIds = Array.from(scores.keys()).sort((a, b) => scores.get(b)! - scores.get(a)!);
+        const offset = options?.offset ?? 0;
+        const end = (options?.limit == null) ? undefined : offset + options.limit;
+        const isVisible = this.#createDeletedFilter(options);
+        const records: T[] = [];
+        for(let i = 0; i < rankedIds.length && (end == null || records.length < end); i++)
+        {
+            const record = await this.#request<T|undefined>(objectStore.get(rankedIds[i]), 'get', rankedIds[i]);
+            if(record != null && isVisible(record)) { records.push(record); }
+        }
 
-                // check if predicate fails on any of the values
-                // skip the first value, if a cursor was opened using it
-                let foundDifference = false;
-                for(let i = (skipFirstPredicate == true) ? 1 : 0; i < predicateKeys.length; i++)
-                {
-                    /* @ts-expect-error Provided prediate key may not be able to index into record */
-                    const cursorValue = currentCursor.value[predicateKeys[i]];
-                    const currentPredicateValues = predicateValues[i];
-                    if(Array.isArray(currentPredicateValues))
-                    {
-                        let foundMatch = false;
-                        for(let j = 0; j < currentPredicateValues.length; j++)
-                        {
-                            const matchValue = currentPredicateValues[j];
-                            if(cursorValue == matchValue)
-                            {
-                                foundMatch = true;
-                            }
-                        }
-
-                        if(foundMatch == false)
-                        {
-                            foundDifference = true;
-                            break;
-                        }
-                    }
-                    /* @ts-expect-error Provided prediate key may not be able to index into record */
-                    else if(currentCursor.value[predicateKeys[i]] != currentPredicateValues)
-                    {
-                        foundDifference = true;
-                        break;
-                    }
-                }
-                
-                if(!foundDifference) { results.push(currentCursor.value); }
+        const results = records.slice(offset, end);
+        if(options?.include != null)
+        {
+            await this.#loadRelations(transaction, results, options.include);
+        }
+        await this.#decryptRecords(results, options?.include);
+        return results;
+    }
+    /**
+     * Update the search tokens of every record in this store, in a single transaction.  
+     * Tokens are kept up to date whenever records are stored, so this is only needed after the `search` option has been added or changed.
+     * @returns the number of records that were updated
+     */
+    async reindexSearch(): Promise<number>
+    {
+        const transaction = this.openTransaction('readwrite');
+        return new Promise<number>((resolve, reject) =>
+        {
+            let count = 0;
+            const request = transaction.objectStore(this.#storeName).openCursor();
+            request.onsuccess = () =>
+            {
+                const cursor = request.result;
+                if(cursor == null) { resolve(count); return; }
 
-                currentCursor.continue();
+                this.#applySearchTokens([cursor.value as T]);
+                cursor.update(cursor.value);
+                count++;
+                cursor.continue();
             }
-            request.onerror = (event: Event) => { reject(event); }
+            request.onerror = (event: Event) => { reject(this.#toError(event, 'reindexSearch')); }
         });
-
     }
+    /**
+     * Count the `Record`s of this store's type that match the predicate.  
+     * When the predicate can be matched by a key range alone, the records are counted by the index, without being read.
+     * @example await store.count({ userId });
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to count all records
+     * @param options `RecordReadOptions` values, like whether to count soft-deleted records
+     * @returns the number of matching records
+     */
+    async count(predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): Promise<number>
+    {
+        const transaction = this.openTransaction('readonly');
+        const plan = this.#createQueryPlan(transaction.objectStore(this.#storeName), predicate ?? {}, undefined, options);
+        if(!plan.isFiltered) { return this.#count(plan.source, plan.range); }
 
+        let count = 0;
+        await this.#forEachMatch(plan, () => { count++; });
+        return count;
+    }
     /**
-    * Update the values of a `Record` managed by this store
-    * @template T the store's `Record` type
-    * @param record the updated `Record` to store in the database
-    * @returns the updated `Record` from the database
-    */
-    updateRecord(record: T):  Promise<T>
+     * Get the unique values of a property, among the `Record`s that match the predicate, in ascending order.  
+     * When the property is indexed and every record is matched, the values are read from the index's keys, without reading the records.
+     * Array values count each of their items as a value, like a `multiEntry` index does.
+     * @example await store.distinct('userId');
+     * @param key the property to get the values of
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to use all records
+     * @param options `RecordReadOptions` values, like whether to use soft-deleted records
+     * @returns the unique values of the property
+     */
+    async distinct<P extends string & (keyof T|K)>(key: P, predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): Promise<RecordPropertyValue<T, P>[]>
     {
-        return new Promise((resolve, reject) =>
+        const transaction = this.openTransaction('readonly');
+        const objectStore = transaction.objectStore(this.#storeName);
+        const plan = this.#createQueryPlan(objectStore, predicate ?? {}, key, options);
+        if(plan.range == null && !plan.isFiltered && plan.source.keyPath == key)
         {
-            const transaction = this.openTransaction();
-            const objectStore = transaction.objectStore(this.#storeName);
-            const request = objectStore.put(record);
-            request.onsuccess = async (event: Event) =>
+            return new Promise((resolve, reject) =>
             {
-                const updatedRecordId = (event.target as unknown as { result: string }).result;
-                const getRequest = objectStore.get(updatedRecordId);
-                getRequest.onerror = (event: Event) => { reject(event); }
-                getRequest.onsuccess = (event: Event) =>
+                const values: RecordPropertyValue<T, P>[] = [];
+                const request = plan.source.openKeyCursor(null, 'nextunique');
+                request.onsuccess = () =>
                 {
-                    const updatedRecord = (event.target as unknown as { result: T }).result;
-                    resolve(updatedRecord);
+                    const cursor = request.result;
+                    if(cursor == null) { resolve(values); return; }
+                    values.push(cursor.key as RecordPropertyValue<T, P>);
+                    cursor.continue();
                 }
-            }
-            request.onerror = (event: Event) => { reject(event); }
+                request.onerror = (event: Event) => { reject(this.#toError(event, 'distinct', key)); }
+            });
+        }
+
+        const values: unknown[] = [];
+        await this.#forEachMatch(plan, (record) =>
+        {
+            const value = (record as unknown as { [key: string]: unknown })[key];
+            values.push(...(Array.isArray(value) ? value : [value]).filter(item => item != null));
         });
+        values.sort((a, b) => this.#compareValues(a, b));
+        return values.filter((value, index) => index == 0 || this.#compareValues(values[index - 1], value) != 0) as RecordPropertyValue<T, P>[];
     }
     /**
-    * Update the values of a `Record` managed by this store
-    * @template T the store's `Record` type
-    * @param records the updated `Record`s to store in the database
-    * @returns the updated `Record`s from the database
-    */
-    async updateRecords(records: T[]):  Promise<T[]>
+     * Get the lowest value of a property, among the `Record`s that match the predicate.  
+     * When the property is indexed, the value is read from the first matching record in the index.
+     * @example await store.min('order', { userId });
+     * @param key the property to get the lowest value of
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to use all records
+     * @param options `RecordReadOptions` values, like whether to use soft-deleted records
+     * @returns the lowest value, or `undefined` if no matching record has a value for the property
+     */
+    min<P extends string & (keyof T|K)>(key: P, predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): Promise<RecordPropertyValue<T, P>|undefined>
     {
-        const transaction = this.openTransaction();
-        const promises = [];
-        for(let i = 0; i < records.length; i++)
+        return this.#readExtreme(key, 'next', predicate, options) as Promise<RecordPropertyValue<T, P>|undefined>;
+    }
+    /**
+     * Get the highest value of a property, among the `Record`s that match the predicate.  
+     * When the property is indexed, the value is read from the last matching record in the index.
+     * @example await store.max('order', { userId });
+     * @param key the property to get the highest value of
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to use all records
+     * @param options `RecordReadOptions` values, like whether to use soft-deleted records
+     * @returns the highest value, or `undefined` if no matching record has a value for the property
+     */
+    max<P extends string & (keyof T|K)>(key: P, predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): Promise<RecordPropertyValue<T, P>|undefined>
+    {
+        return this.#readExtreme(key, 'prev', predicate, options) as Promise<RecordPropertyValue<T, P>|undefined>;
+    }
+    /**
+     * Group the `Record`s that match the predicate by the values of a property, and summarize each group.  
+     * Array values put the record in a group for each of their items, like a `multiEntry` index does.
+     * @example await store.groupBy('type', { count: true, sum: 'size' }, { userId });
+     * @param key the property to group the records by
+     * @param aggregates the summaries to calculate for each group
+     * @param predicate the predicate to match records with, as used by `query`, or `null` to use all records
+     * @param options `RecordReadOptions` values, like whether to use soft-deleted records
+     * @returns a `RecordGroup` for each value of the property, in ascending order
+     */
+    async groupBy<P extends string & (keyof T|K)>(key: P, aggregates: RecordAggregateOptions, predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): Promise<RecordGroup<RecordPropertyValue<T, P>>[]>
+    {
+        const transaction = this.openTransaction('readonly');
+        const plan = this.#createQueryPlan(transaction.objectStore(this.#storeName), predicate ?? {}, key, options);
+        const toArray = (value: string|string[]|undefined) => (value == null) ? [] : Array.isArray(value) ? value : [value];
+        const sumKeys = Array.from(new Set([...toArray(aggregates.sum), ...toArray(aggregates.avg)]));
+        const minKeys = toArray(aggregates.min);
+        const maxKeys = toArray(aggregates.max);
+
+        const groups: { key: unknown, count: number, sums: Map<string, { total: number, count: number }>, mins: Map<string, unknown>, maxes: Map<string, unknown> }[] = [];
+        const findGroup = (value: unknown) =>
         {
-            const record = records[i];
-            promises.push(new Promise<string>((resolve, reject) =>
+            let group = groups.find(item => this.#compareValues(item.key, value) == 0);
+            if(group == null)
             {
-                const objectStore = transaction.objectStore(this.#storeName);
-                const request = objectStore.put(record);
-                request.onsuccess = (event: Event) =>
+                group = { key: value, count: 0, sums: new Map(), mins: new Map(), maxes: new Map() };
+                groups.push(group);
+            }
+            return group;
+        };
+
+        await this.#forEachMatch(plan, (record) =>
+        {
+            const item = record as unknown as { [key: string]: unknown };
+            const value = item[key] ?? null;
+            for(const groupKey of Array.isArray(value) ? value : [value])
+            {
+                const group = findGroup(groupKey);
+                group.count++;
+                for(const sumKey of sumKeys)
                 {
-                    const value = (event.target as unknown as { result: string }).result;
-                    resolve(value);
+                    if(typeof item[sumKey] != 'number') { continue; }
+                    const sum = group.sums.get(sumKey) ?? { total: 0, count: 0 };
+                    sum.total += item[sumKey] as number;
+                    sum.count++;
+                    group.sums.set(sumKey, sum);
                 }
-                request.onerror = (event: Event) => { reject(event); }
-            }));
-        }
+                for(const minKey of minKeys)
+                {
+                    if(item[minKey] == null) { continue; }
+                    if(!group.mins.has(minKey) || this.#compareValues(item[minKey], group.mins.get(minKey)) < 0) { group.mins.set(minKey, item[minKey]); }
+                }
+                for(const maxKey of maxKeys)
+                {
+                    if(item[maxKey] == null) { continue; }
+                    if(!group.maxes.has(maxKey) || this.#compareValues(item[maxKey], group.maxes.get(maxKey)) > 0) { group.maxes.set(maxKey, item[maxKey]); }
+                }
+            }
+        });
 
-        const results: string[] = await Promise.all(promises);
-        const updatedRecords = await this.getRecords(results)
-        return updatedRecords;
+        groups.sort((a, b) => this.#compareValues(a.key, b.key));
+        return groups.map(group =>
+        {
+            const result: RecordGroup<RecordPropertyValue<T, P>> = { key: group.key as RecordPropertyValue<T, P> };
+            if(aggregates.count == true) { result.count = group.count; }
+            if(aggregates.sum != null) { result.sum = Object.fromEntries(toArray(aggregates.sum).map(sumKey => [sumKey, group.sums.get(sumKey)?.total ?? 0])); }
+            if(aggregates.avg != null)
+            {
+                result.avg = Object.fromEntries(toArray(aggregates.avg).map(avgKey =>
+                {
+                    const sum = group.sums.get(avgKey);
+                    return [avgKey, (sum == null) ? null : sum.total / sum.count];
+                }));
+            }
+            if(aggregates.min != null) { result.min = Object.fromEntries(minKeys.map(minKey => [minKey, group.mins.get(minKey)])); }
+            if(aggregates.max != null) { result.max = Object.fromEntries(maxKeys.map(maxKey => [maxKey, group.maxes.get(maxKey)])); }
+            return result;
+        });
     }
 
     /**
-    * Remove a `Record` managed by this store.  
-    * If this store has been configured to "soft delete" records, this function will set the 
-    * configured `deletedTimestamp` property to the runtime value of `Date.now()`
-    * @param id the id of the `Record` to remove
-    * @param overrideSoftDelete force this function to remove the record from the store, rather than allowing it to set the `deletedTimestamp` property 
-    * @returns a `boolean` to indicate success
-    */
-    removeRecord(id: string, overrideSoftDelete: boolean = false):  Promise<boolean>
+     * Read the lowest or highest value of a property, among the `Record`s that match a predicate
+     * @param key the property to read the value of
+     * @param direction `next` for the lowest value, or `prev` for the highest
+     * @param predicate the predicate to match records with
+     * @param options `RecordReadOptions` values, like whether to use soft-deleted records
+     * @returns the value, or `undefined` if no matching record has a value for the property
+     */
+    async #readExtreme(key: string, direction: 'next'|'prev', predicate?: RecordQueryPredicate<T, K>|null, options?: RecordReadOptions): Promise<unknown>
     {
-        if(!overrideSoftDelete && this.#useSoftDelete)
+        const transaction = this.openTransaction('readonly');
+        const plan = this.#createQueryPlan(transaction.objectStore(this.#storeName), predicate ?? {}, key, options);
+        if(plan.isOrdered)
         {
-            return this.setIsDeletedSingle(id, true);
+            // the first matching record in the index's order has the value; records without one aren't in the index
+            const cursor = await this.#openRecordCursor(plan, null, direction).next();
+            if(cursor == null) { return undefined; }
+            return (plan.source.keyPath == key) ? cursor.key : (cursor.value as { [key: string]: unknown })[key];
         }
-        return new Promise((resolve, reject) =>
+
+        let extreme: unknown = undefined;
+        const sign = (direction == 'next') ? 1 : -1;
+        await this.#forEachMatch(plan, (record) =>
         {
-            const transaction = this.openTransaction();
-            const objectStore = transaction.objectStore(this.#storeName);
-            const request = objectStore.delete(id);
-            request.onsuccess = (event: Event) =>
-            {
-                const value = (event.target as unknown as { result: boolean }).result;
-                resolve(value);
-            }
-            request.onerror = (event: Event) => { reject(event); }
+            const value = (record as unknown as { [key: string]: unknown })[key];
+            if(value == null) { return; }
+            if(extreme === undefined || sign * this.#compareValues(value, extreme) < 0) { extreme = value; }
         });
+        return extreme;
     }
     /**
-    * Remove `Record`s managed by this store.  
-    * If this store has been configured to "soft delete" records, this function will set the 
-    * configured `deletedTimestamp` properties to the runtime value of `Date.now()`
-     * @param ids the id of the `Record`s to remove
-     * @param overrideSoftDelete force this function to remove the records from the store, rather than allowing it to set their `deletedTimestamp` properties 
-     * @returns an array of `boolean` values to indicate success
+     * Call a function with each `Record` that matches a query plan, in cursor order
+     * @param plan the plan, from `#createQueryPlan`, to read matching records with
+     * @param callback the function to call with each matching record
      */
-    removeRecords(ids: string[], overrideSoftDelete: boolean = false):  Promise<boolean[]>
+    async #forEachMatch(plan: RecordQueryPlan, callback: (record: T) => void)
     {
-        if(!overrideSoftDelete && this.#useSoftDelete)
+        const reader = this.#openRecordCursor(plan);
+        let cursor = await reader.next();
+        while(cursor != null)
         {
-            return this.setIsDeletedMultiple(ids, true);
+            callback(cursor.value as T);
+            cursor = await reader.next();
         }
-        
-        return new Promise((resolve, reject) =>
-        {
-            const transaction = this.openTransaction();
-            const objectStore = transaction.objectStore(this.#storeName);
-            
-            // deleting multiple records in indexedDB is weird;
-            // they prefer you do it one at a time, so that's
-            // what has been abstracted here.
-            const results: boolean[] = [];
-            const removeRecord = (index: number) =>
-            {
-                if(index > ids.length - 1)
-                { 
-                    resolve(results);
-                    return;
-                }
-                const request = objectStore.delete(ids[index]);
-                request.onsuccess = () =>
-                {
-                    results.push(true);
-                    removeRecord(index + 1);
-                }
-            };
-            removeRecord(0);
-
-            transaction.onabort = function(event: Event) { console.log("Transaction Aborted"); reject(event); };
-            transaction.oncomplete = function(event: Event) 
-            { 
-                // console.log('Transaction Completed');
-                const value = (event.target as unknown as { result: boolean[] }).result;
-                resolve(value);
-            };
-        });
     }
 
     /**
-     * Restore a 'Record` that has been removed using the "soft delete" method.
-     * @param id the id of the `Record` to restore
-     * @returns a `boolean` to indicate success
-     */
-    restoreRecord = (id: string) => this.setIsDeletedSingle(id, false);
-    /**
-     * Restore 'Record`s that have been removed using the "soft delete" method.
-     * @param ids the ids of the `Record`s to restore
-     * @returns an array of `boolean` values to indicate success
+     * Read the `Record`s that match a predicate, sorted by the sort keys.  
+     * When the first sort key is indexed, records are read from its index in order, and only records that share
+     * a value for the first key are sorted by the remaining keys, so reading stops once the requested range is filled.
+     * Otherwise, every matching record is read and then sorted.
+     * @param transaction the transaction to read the records in
+     * @param predicate the predicate to match records with
+     * @param sortKeys the keys to sort the records by
+     * @param options `limit` and `offset` values that describe the portion of the sorted records to read, and whether to read soft-deleted records
+     * @returns the sorted `Record`s
      */
-    restoreRecords = (ids: string[]) => this.setIsDeletedMultiple(ids, false);
+    async #readSortedRecords(transaction: RecordBackendTransaction, predicate: RecordQueryPredicate, sortKeys: RecordSortKey[], options?: RecordQueryOptions): Promise<T[]>
+    {
+        const objectStore = transaction.objectStore(this.#storeName);
+        const [first, ...rest] = sortKeys;
+        const offset = options?.offset ?? 0;
+        const end = (options?.limit == null) ? undefined : offset + options.limit;
 
+        const plan = this.#createQueryPlan(objectStore, predicate, first.key, options);
+        let isStreamed = plan.isOrdered;
+        if(isStreamed && plan.range == null && 'multiEntry' in plan.source)
+        {
+            // records without a value for the key are left out of its index,
+            // so the index can only be read in place of the store if it has every record
+            const [indexCount, storeCount] = await Promise.all([this.#count(plan.source), this.#count(objectStore)]);
+            isStreamed = indexCount == storeCount;
+        }
+        if(!isStreamed)
+        {
+            const { records } = await this.#readRecords(transaction, this.#createQueryPlan(objectStore, predicate, undefined, options));
+            return records.sort(this.#createRecordComparer(sortKeys)).slice(offset, end);
+        }
+
+        const compareRest = this.#createRecordComparer(rest);
+        const results: T[] = [];
+        let group: T[] = [];
+        let groupKey: IDBValidKey|null = null;
+        const reader = this.#openRecordCursor(plan, null, (first.direction == 'desc') ? 'prev' : 'next');
+        let cursor = await reader.next();
+        while(cursor != null)
+        {
+            if(groupKey != null && this.#backend.cmp(cursor.key, groupKey) != 0)
+            {
+                results.push(...group.sort(compareRest));
+                group = [];
+                if(end != null && results.length >= end) { break; }
+            }
+            groupKey = cursor.key;
+            group.push(cursor.value as T);
+            if(rest.length == 0 && end != null && results.length + group.length >= end) { break; }
+            cursor = await reader.next();
+        }
+        results.push(...group.sort(compareRest));
+        return results.slice(offset, end);
+    }
     /**
-     * Set the `deletedTimestamp` property of an `IRestorable` record.
-     * @param id the id of the `Record` to update
-     * @param value determines whether to set or delete the property. To set the property, this value should be `true`. To delete the property, this value should be `false`.
-     * @returns a `boolean` to indicate success
+     * Count the records in an object store or index
+     * @param source the `IDBObjectStore` or `IDBIndex` to count the records of
+     * @param range a key range to only count the records within
+     * @returns the number of records
      */
-    async setIsDeletedSingle(id: string, value: boolean)
+    #count(source: RecordBackendObjectStore|RecordBackendIndex, range?: RecordBackendKeyRange|null)
     {
-        const target = await this.getRecord(id);
-        (target as unknown as any)[this.#softDeleteTimestampPropertyName] = (value == true) ? Date.now() : undefined;
-        await this.updateRecord(target as T);
-        return true;
+        return new Promise<number>((resolve, reject) =>
+        {
+            const request = source.count(range ?? undefined);
+            request.onsuccess = () => { resolve(request.result); }
+            request.onerror = (event: Event) => { reject(this.#toError(event, 'count', range)); }
+        });
     }
     /**
-     * Set the `deletedTimestamp` properties of multpile `IRestorable` records to the same value.
-     * @param ids the ids of the `Record`s to update
-     * @param value determines whether to set or delete the property. To set the property, this value should be `true`. To delete the property, this value should be `false`.
-     * @returns an array of `boolean` values to indicate success
+     * Read the `Record`s that match a query plan, in cursor order
+     * @param transaction the transaction to read the records in
+     * @param plan the plan, from `#createQueryPlan`, to read matching records with
+     * @param options `limit`, `offset`, and `after` values that describe the records to read
+     * @returns the matching `Record`s, and a token for reading the records after them
      */
-    async setIsDeletedMultiple(ids: string[], value: boolean)
+    async #readRecords(transaction: RecordBackendTransaction, plan: RecordQueryPlan, options?: RecordPageOptions): Promise<RecordPage<T>>
     {
-        const targets = await this.getRecords(ids);
-        for(let i = 0; i < targets.length; i++)
+        const offset = options?.offset ?? 0;
+        const limit = options?.limit;
+
+        const reader = this.#openRecordCursor(plan, options?.after);
+        const records: T[] = [];
+        let skipped = 0;
+        // cursors are moved in place, so the position of the last record has to be copied
+        let last: { key: IDBValidKey, primaryKey: IDBValidKey }|null = null;
+        let cursor = await reader.next();
+        while(cursor != null)
         {
-            (targets[i] as unknown as any)[this.#softDeleteTimestampPropertyName] = (value == true) ? Date.now() : undefined;
+            if(skipped < offset)
+            {
+                skipped++;
+            }
+            else if(limit != null && records.length >= limit)
+            {
+                // there is at least one more match, so the page can be continued
+                return { records, next: (last == null) ? options?.after ?? null : this.#encodeCursorToken(last) };
+            }
+            else
+            {
+                records.push(cursor.value as T);
+            }
+            last = { key: cursor.key, primaryKey: cursor.primaryKey };
+            cursor = await reader.next();
         }
-        await this.updateRecords(targets as T[]);
-        return new Array().fill(true, 0, targets.length - 1);
+        return { records, next: null };
     }
-
     /**
-     * Remove all records managed by this store
-     * @returns a `boolean` to indicate success
+     * Open a cursor over the `Record`s that match a query plan, which only stops on matching records
+     * @param plan the plan, from `#createQueryPlan`, to read matching records with
+     * @param after a token from `#encodeCursorToken`; the cursor will start after the position it describes
+     * @param direction the direction to move the cursor in
+     * @returns a reader whose `next` function resolves with the cursor at the next matching record, or `null` when there are no more matches
      */
-    clear()
+    #openRecordCursor(plan: RecordQueryPlan, after?: string|null, direction: IDBCursorDirection = 'next')
     {
-        return new Promise((resolve, reject) =>
+        const isIndex = 'multiEntry' in plan.source;
+        const sign = (direction == 'prev' || direction == 'prevunique') ? -1 : 1;
+        let position = (after == null) ? null : this.#decodeCursorToken(after);
+
+        let current: RecordBackendCursorWithValue|null = null;
+        let pending: { resolve: (cursor: RecordBackendCursorWithValue|null) => void, reject: (reason: unknown) => void }|null = null;
+        let settled: { cursor?: RecordBackendCursorWithValue|null, error?: unknown }|null = null;
+        const settle = (result: { cursor?: RecordBackendCursorWithValue|null, error?: unknown }) =>
         {
-            const transaction = this.openTransaction();
-            const objectStore = transaction.objectStore(this.#storeName);
-            const request = objectStore.clear();
-            request.onsuccess = (event: Event) =>
+            if(pending == null) { settled = result; return; }
+            const { resolve, reject } = pending;
+            pending = null;
+            if(result.error !== undefined) { reject(result.error); }
+            else { resolve(result.cursor ?? null); }
+        };
+
+        const request = plan.source.openCursor(plan.range, direction);
+        request.onsuccess = () =>
+        {
+            const cursor = request.result;
+            if(cursor == null) { settle({ cursor: null }); return; }
+
+            if(position != null)
             {
-                const value = (event.target as unknown as { result: boolean }).result;
-                resolve(value);
+                // comparisons are flipped for descending cursors, so that "less than" always means "not yet reached"
+                const keyComparison = sign * this.#backend.cmp(cursor.key, position.key);
+                const comparison = (keyComparison != 0 || !isIndex) ? keyComparison : sign * this.#backend.cmp(cursor.primaryKey, position.primaryKey);
+                if(comparison < 0)
+                {
+                    if(keyComparison < 0) { cursor.continue(position.key); }
+                    else { cursor.continuePrimaryKey(position.key, position.primaryKey); }
+                    return;
+                }
+                position = null;
+                if(comparison == 0) { cursor.continue(); return; }
             }
-            request.onerror = (event: Event) => { reject(event); }
+
+            if(!plan.filter(cursor.value as RecordBase)) { cursor.continue(); return; }
+
+            current = cursor;
+            settle({ cursor });
+        };
+        request.onerror = (event: Event) => { settle({ error: this.#toError(event, 'openCursor', plan.range) }); }
+
+        let isOpened = false;
+        return {
+            next: () => new Promise<RecordBackendCursorWithValue|null>((resolve, reject) =>
+            {
+                pending = { resolve, reject };
+                if(isOpened && current != null)
+                {
+                    const cursor = current;
+                    current = null;
+                    cursor.continue();
+                }
+                isOpened = true;
+                if(settled != null)
+                {
+                    const result = settled;
+                    settled = null;
+                    settle(result);
+                }
+            }),
+        };
+    }
+    /**
+     * Describe a cursor's position as a token that can be used to resume reading after it
+     * @param position the `key` and `primaryKey` of the cursor position
+     * @returns an opaque `string` token
+     */
+    #encodeCursorToken(position: { key: IDBValidKey, primaryKey: IDBValidKey })
+    {
+        return JSON.stringify({ key: position.key, primaryKey: position.primaryKey }, function(this: { [key: string]: unknown }, key: string, value: unknown)
+        {
+            // Dates have already been converted by `toJSON`, so check the original value
+            const original = this[key];
+            return (original instanceof Date) ? { $date: original.getTime() } : value;
+        });
+    }
+    /**
+     * Read a cursor position from a token made by `#encodeCursorToken`
+     * @param token the token to read
+     * @returns the `key` and `primaryKey` of the cursor position
+     */
+    #decodeCursorToken(token: string): { key: IDBValidKey, primaryKey: IDBValidKey }
+    {
+        return JSON.parse(token, (_key: string, value: unknown) =>
+        {
+            const date = (value as { $date?: number }|null)?.$date;
+            return (date != null) ? new Date(date) : value;
         });
     }
 
-    
-}
+    /**
+     * Determine how to read the records that match a predicate: which index to open a cursor on, the key range
+     * to open it with, and a filter for the parts of the predicate that the key range can't express.  
+     * A compound index is used when every property of the predicate is an equality match and the index exists;
+     * otherwise the first indexed property whose value can be expressed as a key range is used, preferring the order key.
+     * When none of the properties can be used, every record in the store is filtered, using the order key's index if it has one.
+     * @param objectStore the `IDBObjectStore` of this store, in the current transaction
+     * @param predicate the predicate to plan for
+     * @param orderKey a property that the records should be read in the order of, if possible
+     * @param options `RecordReadOptions` values that decide whether soft-deleted records match
+     * @returns the source, range and filter to read matching records with
+     */
+    #createQueryPlan(objectStore: RecordBackendObjectStore, predicate: RecordQueryPredicate, orderKey?: string, options?: RecordReadOptions): RecordQueryPlan
+    {
+        const isVisible = this.#createDeletedFilter(options);
+        const isDeletedFiltered = this.#isDeletedFiltered(options);
+        const conditions = Object.entries(predicate);
+        const isPrimaryKey = (key: string) => objectStore.keyPath == key;
+        const getSource = (key: string) => isPrimaryKey(key) ? objectStore : objectStore.index(key);
 
-/** A definition for an object that acts as key/value pairs to define a table schema.  
-*The key indicates the table name.  
-*The value indicates the indexes, separated by commas.
-* @example { "users": "id, name", "profiles": "id, userId", "posts": "id, [userId+postType]", [...] }
-*/
-export type RecordSetterSchema = { [key: string]: string; };
-/** Options for a `RecordSetter` instance */
-export interface RecordSetterOptions
-{
-    name: string;
-    version: number;
-    schema: RecordSetterSchema;
-    keyValueTableName?: string;
-}
+        let source: RecordBackendObjectStore|RecordBackendIndex = objectStore;
+        let range: RecordBackendKeyRange|null = null;
+        let rangeIndex = -1;
 
-/** An asynchronous indexedDB wrapper that includes record management, query functions, and batch operations  */
-export class RecordSetter
-{
-    #isOpen: boolean = false;
-    #isInitialized: boolean = false;
+        const isEqualityPredicate = conditions.every(([_, condition]) => !Array.isArray(condition) && !this.#isQueryOperators(condition));
+        const compoundIndexName = conditions.map(([key]) => key).join('+');
+        if(conditions.length > 1 && isEqualityPredicate && objectStore.indexNames.contains(compoundIndexName))
+        {
+            source = objectStore.index(compoundIndexName);
+            range = this.#backend.only(conditions.map(([_, condition]) => condition));
+            // every match has the same value for each predicate property, so they're already in order of any of them
+            const isOrdered = orderKey != null && conditions.some(([key]) => key == orderKey);
+            return { source, range, filter: isVisible, isOrdered, isFiltered: isDeletedFiltered };
+        }
 
-    #database?: IDBDatabase;
+        const candidates = conditions.map((_, index) => index);
+        const orderIndex = conditions.findIndex(([key]) => key == orderKey);
+        if(orderIndex > 0)
+        {
+            candidates.splice(orderIndex, 1);
+            candidates.unshift(orderIndex);
+        }
+        for(const i of candidates)
+        {
+            const [key, condition] = conditions[i];
+            if(!isPrimaryKey(key) && !objectStore.indexNames.contains(key)) { continue; }
 
-    #keyValueTableName: string = "keyValue";
+            const conditionRange = this.#toKeyRange(condition);
+            if(conditionRange == null) { continue; }
 
-    /** A map of the `RecordStore`s managed by this `RecordSetter` instance */
-    stores: Map<string, RecordStore<RecordBase>> = new Map();
+            source = getSource(key);
+            range = conditionRange;
+            rangeIndex = i;
+            break;
+        }
 
-    //#region Database - Create, open, update, delete database
+        let isOrdered = (rangeIndex != -1 && conditions[rangeIndex][0] == orderKey);
+        if(rangeIndex == -1 && orderKey != null && (isPrimaryKey(orderKey) || objectStore.indexNames.contains(orderKey)))
+        {
+            source = getSource(orderKey);
+            isOrdered = true;
+        }
+
+        // the condition used for the range has already been matched by the cursor
+        const remainingConditions = conditions.filter((_, index) => index != rangeIndex);
+        const filter = (record: RecordBase) =>
+        {
+            if(!isVisible(record)) { return false; }
+            for(let i = 0; i < remainingConditions.length; i++)
+            {
+                const [key, condition] = remainingConditions[i];
+                const value = (record as unknown as { [key: string]: unknown })[key];
+                if(!this.#matchesCondition(value, condition)) { return false; }
+            }
+            return true;
+        };
 
+        return { source, range, filter, isOrdered, isFiltered: isDeletedFiltered || remainingConditions.length > 0 };
+    }
     /**
-     * Create and then await and validate opening a `RecordSetter` instance
-     * @param options target `RecordSetterOptions` values
-     * @returns a validated `RecordSetter` instance
+     * Create a function that checks whether a record should be read, based on whether it has been soft-deleted
+     * @param options `RecordReadOptions` values that decide whether soft-deleted records are read
+     * @returns a function that returns `true` for records that should be read
      */
-    static async activate(options: RecordSetterOptions)
+    #createDeletedFilter(options?: RecordReadOptions): (record: RecordBase) => boolean
     {
-        const instance = new RecordSetter();
-        const opened = await instance.open(options);
-        if(opened == false) { throw new Error("An error occurred opening the database."); }
-        return instance;
+        const isDeleted = (record: RecordBase) => (record as unknown as { [key: string]: unknown })[this.#softDeleteTimestampPropertyName] != null;
+        if(options?.onlyDeleted == true) { return isDeleted; }
+        if(!this.#isDeletedFiltered(options)) { return (_record: RecordBase) => true; }
+        return (record: RecordBase) => !isDeleted(record);
     }
     /**
-     * Open the `RecordSetter` instance's database and initialize its functionality
-     * @param options target `RecordSetterOptions` values
-     * @returns a `boolean` to indicate success
+     * Check whether records have to be filtered by whether they have been soft-deleted
+     * @param options `RecordReadOptions` values that decide whether soft-deleted records are read
+     * @returns `true` if some records would be left out by the filter from `#createDeletedFilter`
      */
-    async open(options: RecordSetterOptions):Promise<boolean>
+    #isDeletedFiltered(options?: RecordReadOptions)
     {
-        await this.#openDatabase(options);
-
-        return this.#isOpen && this.#isInitialized;
+        return options?.onlyDeleted == true || (options?.includeDeleted != true && this.#useSoftDelete);
     }
     /**
-     * Opens an instance of an `IDBDatabase` database, and registers for upgrade events.  
-     * Listens for `onupgradeneeded` to create an `IDBDatabase` instance if it does not exist, and upgrade the instance if it does.
-     * @param options target `RecordSetterOptions` values
-     * @returns an awaitable `Promise`
+     * Convert a predicate condition to the `IDBKeyRange` that matches it, if one can be made
+     * @param condition a predicate value, array of values, or `RecordQueryOperators` object
+     * @returns the matching `IDBKeyRange`, or `null` if the condition must be matched by filtering
      */
-    async #openDatabase(options: RecordSetterOptions)
+    #toKeyRange(condition: unknown): RecordBackendKeyRange|null
     {
-        return new Promise<void>((resolve, reject) =>
-        {                
-            const request = indexedDB.open(options.name, options.version);
-            request.onsuccess = (event: Event) =>
-            {
-                const dbEvent = event.target as unknown as { result: IDBDatabase|undefined };
-                this.#database = dbEvent.result;
-
-                this.#isOpen = true;
-                this.#isInitialized = true;
-                resolve();
-            };
+        if(Array.isArray(condition)) { return null; }
+        try
+        {
+            if(!this.#isQueryOperators(condition)) { return this.#backend.only(condition); }
 
-            request.onupgradeneeded = async (event: IDBVersionChangeEvent) =>
+            const lowerBounds: { key: unknown, isOpen: boolean }[] = [];
+            const upperBounds: { key: unknown, isOpen: boolean }[] = [];
+            if(condition.$startsWith != null)
             {
-                const dbEvent = event.target as unknown as { result: IDBDatabase|undefined };
-                this.#database = dbEvent.result;
-                await this.#createDatabase(options);
-                this.#isInitialized = true;
-                this.#isOpen = true;
-                resolve();
-            };
+                lowerBounds.push({ key: condition.$startsWith, isOpen: false });
+                upperBounds.push({ key: condition.$startsWith + '\uffff', isOpen: false });
+            }
+            if(condition.$between != null)
+            {
+                lowerBounds.push({ key: condition.$between[0], isOpen: false });
+                upperBounds.push({ key: condition.$between[1], isOpen: false });
+            }
+            if(condition.$gte !== undefined) { lowerBounds.push({ key: condition.$gte, isOpen: false }); }
+            if(condition.$gt !== undefined) { lowerBounds.push({ key: condition.$gt, isOpen: true }); }
+            if(condition.$lte !== undefined) { upperBounds.push({ key: condition.$lte, isOpen: false }); }
+            if(condition.$lt !== undefined) { upperBounds.push({ key: condition.$lt, isOpen: true }); }
 
-            request.onerror = (event: Event) => { reject(event); }
+            // every operator has to match, so the range is the intersection of their bounds: the tightest bound on each side,
+            // where an exclusive bound is tighter than an inclusive bound on the same key
+            const getTightest = (bounds: { key: unknown, isOpen: boolean }[], sign: number) => bounds.reduce<{ key: unknown, isOpen: boolean }|undefined>((tightest, bound) =>
+            {
+                if(tightest == null) { return bound; }
+                const comparison = sign * this.#backend.cmp(bound.key, tightest.key);
+                return (comparison > 0 || (comparison == 0 && bound.isOpen)) ? bound : tightest;
+            }, undefined);
+            const lower = getTightest(lowerBounds, 1);
+            const upper = getTightest(upperBounds, -1);
 
-        });
+            if(lower != null && upper != null) { return this.#backend.bound(lower.key, upper.key, lower.isOpen, upper.isOpen); }
+            if(lower != null) { return this.#backend.lowerBound(lower.key, lower.isOpen); }
+            if(upper != null) { return this.#backend.upperBound(upper.key, upper.isOpen); }
+            return null;
+        }
+        catch(_)
+        {
+            // values that are not valid keys (like booleans), or bounds that
+            // can't contain any keys, can still be matched by filtering
+            return null;
+        }
     }
     /**
-     * Create the database instance's object stores
-     * @param options target `RecordSetterOptions` values
-     * @returns an awaitable `Promise`
+     * Check a record's property value against a predicate condition
+     * @param value the value of the record's property
+     * @param condition a predicate value, array of values, or `RecordQueryOperators` object
+     * @returns `true` if the value satisfies the condition
      */
-    async #createDatabase(options: RecordSetterOptions)
+    #matchesCondition(value: unknown, condition: unknown): boolean
     {
-        // called after upgradeneeded finished; no need to initialize;
-        if(this.#isInitialized == true) { return; }
-
-        const storePromises: Promise<void>[] = [];
-        for(const [tableName, columnsKey] of Object.entries(options.schema))
+        if(Array.isArray(condition))
         {
-            const indexesArray = columnsKey.split(',').map(item => item.trim());
-            storePromises.push(this.#createStorePromise(tableName, indexesArray));
+            return condition.find(item => item == value) !== undefined;
         }
-
-        if(Object.keys(options.schema).indexOf(options.keyValueTableName!) == -1)
+        if(!this.#isQueryOperators(condition))
         {
-            storePromises.push(new Promise((resolve, reject) =>
-            {
-                this.#keyValueTableName = options.keyValueTableName ?? this.#keyValueTableName;
-                const objectStore = this.#database!.createObjectStore(this.#keyValueTableName, { keyPath: "key" });
-                objectStore.transaction.oncomplete = (_event: Event) =>
-                {
-                    resolve();
-                }
-                objectStore.transaction.onerror = (event: Event) =>
-                {
-                    reject(event);
-                }
-            }))
+            return value == condition;
         }
 
-        return Promise.all(storePromises);
+        const compare = (target: unknown) =>
+        {
+            try { return this.#backend.cmp(value, target); }
+            catch(_) { return NaN; } // values that are not valid keys can't be compared
+        };
+        if(condition.$gt !== undefined && !(compare(condition.$gt) > 0)) { return false; }
+        if(condition.$gte !== undefined && !(compare(condition.$gte) >= 0)) { return false; }
+        if(condition.$lt !== undefined && !(compare(condition.$lt) < 0)) { return false; }
+        if(condition.$lte !== undefined && !(compare(condition.$lte) <= 0)) { return false; }
+        if(condition.$between != null && !(compare(condition.$between[0]) >= 0 && compare(condition.$between[1]) <= 0)) { return false; }
+        if(condition.$startsWith != null && !(typeof value == 'string' && value.startsWith(condition.$startsWith))) { return false; }
+        return true;
     }
     /**
-     * Establishes a store and its indexes
-     * @param name the name of the `IDBObjectStore` to create
-     * @param indexesArray the indexes to add to this `IDBObjectStore`
+     * Normalize a `RecordSort` value to a list of sort keys
+     * @param sort the sort value to normalize
+     * @returns the `RecordSortKey`s, in order of precedence
      */
-    async #createStorePromise(name: string, indexesArray: string[])
+    #parseSort(sort?: RecordSort): RecordSortKey[]
     {
-        const indexDefinitionsArray = new Array<{name: string, keyPath: string|string[], unique:boolean}>();
-        for(let j = 0; j < indexesArray.length; j++)
-        {
-            const key = indexesArray[j];
-            let name = key;
-            let keyPath:string|string[] = key;
-            let unique = false;
-            if(key.startsWith('!'))
+        if(sort == null) { return []; }
+        const items = Array.isArray(sort) ? sort : [sort];
+        return items.map(item => (typeof item == 'string') ? { key: item } : item);
+    }
+    /**
+     * Create a function that compares records by a list of sort keys, for use with `Array.sort`
+     * @param sortKeys the keys to compare the records by, in order of precedence
+     * @returns the comparison function
+     */
+    #createRecordComparer(sortKeys: RecordSortKey[])
+    {
+        return (a: RecordBase, b: RecordBase) =>
+        {
+            for(let i = 0; i < sortKeys.length; i++)
+            {
+                const { key, direction } = sortKeys[i];
+                const comparison = this.#compareValues((a as unknown as { [key: string]: unknown })?.[key], (b as unknown as { [key: string]: unknown })?.[key]);
+                if(comparison != 0) { return (direction == 'desc') ? -comparison : comparison; }
+            }
+            return 0;
+        };
+    }
+    /**
+     * Compare two property values by their type.  
+     * Values of different types are ordered the way indexedDB orders keys (numbers, then dates, then strings),
+     * with `null` and `undefined` values after all others. Strings are compared by code unit, which is also how indexes order them.
+     * @param a the first value
+     * @param b the second value
+     * @returns a negative number if `a` comes first, a positive number if `b` comes first, or `0` if they are equal
+     */
+    #compareValues(a: unknown, b: unknown): number
+    {
+        const rank = (value: unknown) =>
+        {
+            if(value == null) { return 5; }
+            if(typeof value == 'boolean') { return 0; }
+            if(typeof value == 'number' || typeof value == 'bigint') { return 1; }
+            if(value instanceof Date) { return 2; }
+            if(typeof value == 'string') { return 3; }
+            return 4;
+        };
+        const aRank = rank(a);
+        const bRank = rank(b);
+        if(aRank != bRank) { return aRank - bRank; }
+
+        if(a instanceof Date && b instanceof Date) { return a.getTime() - b.getTime(); }
+        if(aRank == 0 || aRank == 1 || aRank == 3)
+        {
+            const aValue = a as number|string;
+            const bValue = b as number|string;
+            return (aValue < bValue) ? -1 : (aValue > bValue) ? 1 : 0;
+        }
+        return 0;
+    }
+    /**
+     * Check whether a predicate condition is a `RecordQueryOperators` object, rather than a value to match
+     * @param condition the predicate condition to check
+     * @returns `true` if every property of the condition is an operator
+     */
+    #isQueryOperators(condition: unknown): condition is RecordQueryOperators
+    {
+        if(condition == null || typeof condition != 'object' || Object.getPrototypeOf(condition) != Object.prototype) { return false; }
+        const keys = Object.keys(condition);
+        return keys.length > 0 && keys.every(key => key.startsWith('$'));
+    }
+
+    /**
+    * Update the values of a `Record` managed by this store
+    * @template T the store's `Record` type
+    * @param record the updated `Record` to store in the database
+    * @returns the updated `Record` from the database
+    */
+    updateRecord(record: T):  Promise<T>
+    {
+        return this.#updateRecord(record, 'update');
+    }
+    /**
+    * Update the values of a `Record` managed by this store
+    * @template T the store's `Record` type
+    * @param records the updated `Record`s to store in the database
+    * @returns the updated `Record`s from the database
+    */
+    async updateRecords(records: T[]):  Promise<T[]>
+    {
+        return this.#updateRecords(records, 'update');
+    }
+    /**
+    * Store a `Record`, replacing the stored `Record` with the same id, or adding it if there isn't one
+    * @template T the store's `Record` type
+    * @param record the `Record` to store in the database
+    * @returns the stored `Record` from the database
+    */
+    upsertRecord(record: T):  Promise<T>
+    {
+        return this.#updateRecord(record, 'update');
+    }
+    /**
+    * Store `Record`s, replacing the stored `Record`s with the same ids, or adding them if there aren't any
+    * @template T the store's `Record` type
+    * @param records the `Record`s to store in the database
+    * @returns the stored `Record`s from the database
+    */
+    upsertRecords(records: T[]):  Promise<T[]>
+    {
+        return this.#updateRecords(records, 'update');
+    }
+    /**
+    * Change some of the properties of a stored `Record`, reading and writing it in the same transaction
+    * @example await tasks.patchRecord(task.id, { status: 'done', 'details.completedBy': userId });
+    * @template T the store's `Record` type
+    * @param id the id of the `Record` to change
+    * @param patch the properties to change, by name or by dotted path; properties set to `undefined` are removed
+    * @returns the updated `Record` from the database; rejects if the `Record` doesn't exist, or has been soft-deleted
+    */
+    async patchRecord(id: string, patch: RecordPatch<T>):  Promise<T>
+    {
+        const [updatedRecord] = await this.patchRecords([{ id, patch }]);
+        return updatedRecord;
+    }
+    /**
+    * Change some of the properties of stored `Record`s, reading and writing them in a single transaction
+    * @template T the store's `Record` type
+    * @param patches the ids of the `Record`s to change, and the properties to change in each, by name or by dotted path
+    * @returns the updated `Record`s from the database; rejects, without changing any of them, if any of the `Record`s doesn't exist
+    */
+    async patchRecords(patches: { id: string, patch: RecordPatch<T> }[]):  Promise<T[]>
+    {
+        // a patch is stored like a partial record, so that its encrypted fields are encrypted the same way
+        return this.#updateRecords(patches.map(item => ({ ...item.patch, id: item.id }) as unknown as T), 'update', { isPatch: true });
+    }
+    /**
+    * Write changes that were made somewhere else, like the records that `RecordHistory` restores, or that `SyncManager` pulls, replacing the stored `Record`s whatever their revisions.  
+    * The records still get new revisions, timestamps and search tokens, and the hooks are called, but the changes aren't recorded in the history.
+    * Soft-deleted records are written as removals. When an id is changed more than once, only its last change is written.
+    * @param changes the ids of the changed `Record`s, and the `Record`s to store, or `null` to remove them
+    * @param options `RecordApplyOptions` values, like `isLogged: false` to leave the changes out of the change log
+    * @returns an awaitable `Promise` that resolves once the changes have been written
+    */
+    async applyChanges(changes: { id: string, record: T|null }[], options?: RecordApplyOptions): Promise<void>
+    {
+        const latest = new Map(changes.map(change => [change.id, change.record]));
+        // the records are copied, so that the revisions and timestamps they're given don't change the caller's records
+        const records = Array.from(latest.values()).filter(record => record != null).map(record => structuredClone(record));
+        const removedIds = Array.from(latest.keys()).filter(id => latest.get(id) == null);
+        const writeOptions: RecordWriteOptions = { ...options, isReplace: true };
+        const isDeleted = (record: T) => this.#useSoftDelete && (record as unknown as { [key: string]: unknown })[this.#softDeleteTimestampPropertyName] != null;
+        const savedRecords = records.filter(record => !isDeleted(record));
+        const deletedRecords = records.filter(record => isDeleted(record));
+        if(savedRecords.length > 0) { await this.#updateRecords(savedRecords, 'update', writeOptions); }
+        if(deletedRecords.length > 0) { await this.#updateRecords(deletedRecords, 'remove', writeOptions); }
+        if(removedIds.length > 0) { await this.#deleteRecords(removedIds, this.openTransaction(), writeOptions); }
+    }
+    /**
+    * Import a large number of `Record`s, in chunks that are each written in their own transaction.  
+    * Records are read from the source one chunk at a time, so a generator or stream is never read further ahead than the chunk being written,
+    * and they aren't read back once they're stored. Records replace stored records with the same ids, like `updateRecords`.
+    * A chunk that fails is reported, and none of its records are imported, but the import carries on with the next chunk.
+    * @example const result = await tasks.bulkImport(parseCsv(file), { chunkSize: 1000, onProgress: ({ imported }) => { progress.value = imported; } });
+    * @template T the store's `Record` type
+    * @param records the `Record`s to import, as an array, iterable or async iterable
+    * @param options `RecordImportOptions` values, like the `chunkSize`, an `onProgress` callback, and a `signal` to cancel the import
+    * @returns the numbers of imported and failed records, and the chunks that failed; rejects with the `signal`'s `reason`, as it is, if the import is cancelled
+    */
+    async bulkImport(records: Iterable<T>|AsyncIterable<T>, options?: RecordImportOptions): Promise<RecordImportResult>
+    {
+        if(this.#transaction != null) { throw new RecordSetterError(`The "${this.#storeName}" store can't import records in a transaction, since each chunk is written in its own transaction.`, { storeName: this.#storeName, operation: 'bulkImport' }); }
+
+        const chunkSize = Math.max(1, options?.chunkSize ?? 500);
+        const result: RecordImportResult = { imported: 0, failed: 0, failures: [] };
+        let chunkIndex = 0;
+        const signal = options?.signal;
+        signal?.throwIfAborted();
+
+        // reading the source and writing a chunk can take a while, so they are raced with the signal, to stop as soon as it's aborted
+        let onAbort = () => { /* replaced below */ };
+        const aborted = new Promise<never>((_, reject) => { onAbort = () => { reject(signal!.reason); }; });
+        aborted.catch(() => { /* reported by the race that loses to it */ });
+        signal?.addEventListener('abort', onAbort);
+        const untilAborted = <R>(promise: Promise<R>) => (signal == null) ? promise : Promise.race([promise, aborted]);
+
+        const writeChunk = async (chunk: T[]) =>
+        {
+            let error: Error|undefined;
+            try
+            {
+                await this.#updateRecords(chunk, 'update', { isImport: true });
+                result.imported += chunk.length;
+            }
+            catch(chunkError)
+            {
+                error = RecordSetterError.from(chunkError, { storeName: this.#storeName, operation: 'bulkImport' });
+                result.failed += chunk.length;
+                result.failures.push({ chunk: chunkIndex, ids: chunk.map(record => record.id), error });
+            }
+            // a chunk that finishes after the import was cancelled isn't reported
+            if(signal?.aborted) { return; }
+            options?.onProgress?.({ chunk: chunkIndex, count: chunk.length, imported: result.imported, failed: result.failed, error });
+            chunkIndex++;
+        };
+
+        const iterator = (Symbol.asyncIterator in records) ? records[Symbol.asyncIterator]() : records[Symbol.iterator]();
+        try
+        {
+            let chunk: T[] = [];
+            let next = await untilAborted(Promise.resolve(iterator.next()));
+            while(next.done != true)
+            {
+                signal?.throwIfAborted();
+                chunk.push(await next.value);
+                if(chunk.length >= chunkSize)
+                {
+                    await untilAborted(writeChunk(chunk));
+                    chunk = [];
+                }
+                next = await untilAborted(Promise.resolve(iterator.next()));
+            }
+            signal?.throwIfAborted();
+            if(chunk.length > 0) { await untilAborted(writeChunk(chunk)); }
+            return result;
+        }
+        catch(error)
+        {
+            // the source is closed, like a `for await` loop that is broken out of, so a generator can clean up
+            if(signal?.aborted) { Promise.resolve(iterator.return?.()).catch(() => { /* the import has already been cancelled */ }); }
+            throw error;
+        }
+        finally
+        {
+            signal?.removeEventListener('abort', onAbort);
+        }
+    }
+    /**
+    * Store a `Record`, and notify subscribers once the change has been committed
+    * @param record the `Record` to store in the database
+    * @param operation the operation to report to subscribers
+    * @returns the stored `Record` from the database
+    */
+    async #updateRecord(record: T, operation: RecordChangeOperation):  Promise<T>
+    {
+        const [updatedRecord] = await this.#updateRecords([record], operation);
+        return updatedRecord;
+    }
+    /**
+    * Store multiple `Record`s, and notify subscribers once the change has been committed.  
+    * Every write to this store's records goes through this function, so that timestamps and hooks are applied the same way for each operation.
+    * Soft deletes are reported to the remove hooks; every other operation is reported to the save hooks.
+    * @param records the `Record`s to store in the database
+    * @param operation the operation to report to subscribers
+    * @param options `RecordWriteOptions` values, for patches and imports
+    * @returns the stored `Record`s from the database; imports return the `Record`s that were passed, with the properties the store set
+    */
+    async #updateRecords(records: T[], operation: RecordChangeOperation, options?: RecordWriteOptions):  Promise<T[]>
+    {
+        const isPatch = options?.isPatch == true;
+        const isImport = options?.isImport == true;
+        const setDeleted = options?.setDeleted;
+        const isReplace = options?.isReplace == true;
+        const history = (isImport || isReplace) ? undefined : this.#options?.history;
+        // fields are encrypted before the transaction is opened, since it would commit while they're being encrypted
+        const originals = records;
+        records = await this.#encryptRecords(records);
+
+        const transaction = this.openTransaction();
+        // imports aren't read back, so they wait for their transaction to commit instead
+        const committed = isImport ? new Promise<void>((resolve, reject) =>
+        {
+            transaction.addEventListener('complete', () => { resolve(); });
+            transaction.addEventListener('abort', (event: Event) => { reject(this.#toError(event, 'put', records.map(record => record.id))); });
+        }) : null;
+        // if writing the records fails, its error is reported instead of the abort
+        committed?.catch(() => { /* handled below */ });
+        const objectStore = transaction.objectStore(this.#storeName);
+        const context: RecordHookContext = { storeName: this.#storeName, operation, transaction };
+        const isRemoval = operation == 'remove';
+
+        let results: string[];
+        let revertRevisions = () => {};
+        try
+        {
+            // revisions are checked against the stored records in the same transaction that replaces them,
+            // so another tab can't write in between
+            const isStoredRecordNeeded = this.#useRevisions || (this.#useTimestamps && !isRemoval && operation != 'add') || history != null || isPatch || setDeleted != null;
+            let storedRecords = (isStoredRecordNeeded)
+                ? await Promise.all(records.map(record => this.#request<T|undefined>(objectStore.get(record.id), 'get', record.id)))
+                : records.map(() => undefined);
+            if(isPatch) { records = records.map((patch, index) => this.#applyPatch(storedRecords[index], patch)); }
+            if(setDeleted != null)
+            {
+                storedRecords = storedRecords.filter(stored => stored != null);
+                records = storedRecords.map(stored => this.#applyDeletedTimestamp(stored!, setDeleted));
+            }
+            if(isReplace && this.#useRevisions)
+            {
+                // replacements take the place of whatever is stored, so they get the revision that follows it instead of being checked against it
+                records.forEach((record, index) => { (record as unknown as { [key: string]: unknown })[this.#revisionPropertyName] = (storedRecords[index] as unknown as { [key: string]: unknown }|undefined)?.[this.#revisionPropertyName]; });
+            }
+            // adds fail on stored records anyway, but the revision check would report them as conflicts instead
+            const existingIndex = (operation == 'add') ? storedRecords.findIndex(stored => stored != null) : -1;
+            if(existingIndex != -1) { throw new ConstraintViolationError(`A record with the id "${records[existingIndex].id}" is already stored in the "${this.#storeName}" store.`, { storeName: this.#storeName, operation: 'add', key: records[existingIndex].id }); }
+
+            if(this.#useRevisions) { revertRevisions = this.#applyRevisions(records, storedRecords); }
+            if(!isRemoval) { this.#applyTimestamps(records, storedRecords); }
+            await this.#runHooks(isRemoval ? 'beforeRemove' : 'beforeSave', records, context);
+            // tokens are made after the hooks, so that they match any changes the hooks make
+            this.#applySearchTokens(records);
+            results = await Promise.all(records.map(record => (operation == 'add')
+                ? this.#request<string>(objectStore.add(record), 'add', record.id)
+                : this.#request<string>(objectStore.put(record), 'put', record.id)));
+            // soft-deleted records are logged with their deleted timestamp, as tombstones
+            if(options?.isLogged != false) { await this.#logChanges(transaction, operation, records.map(record => ({ id: record.id, payload: record }))); }
+            history?.record(transaction, records.map((record, index) => ({ storeName: this.#storeName, id: record.id, operation, before: storedRecords[index] ?? null, after: record })));
+            await this.#runHooks(isRemoval ? 'afterRemove' : 'afterSave', records, context);
+        }
+        catch(error)
+        {
+            // nothing was stored, so the records keep the revisions they were read with
+            revertRevisions();
+            this.#abortTransaction(transaction);
+            if(error instanceof VersionConflictError) { await this.#decryptRecords([error.currentRecord]); }
+            throw RecordSetterError.from(error, { storeName: this.#storeName, operation: isRemoval ? 'delete' : (operation == 'add') ? 'add' : 'put', key: records.map(record => record.id) });
+        }
+        // the originals get the revisions, timestamps and hook changes that were stored with their encrypted copies
+        if(records != originals && !isPatch && setDeleted == null) { originals.forEach((original, index) => this.#assignUnencryptedFields(original, records[index])); }
+
+        if(results.length > 0) { this.#notifyOnComplete(transaction, operation, results); }
+        if(committed != null)
+        {
+            await committed;
+            return originals;
+        }
+        // replacements are written in a transaction that is still being used, so they aren't read back
+        if(isReplace) { return originals; }
+        // the stored records are read back without the cache, so that the reads aren't counted in its stats
+        const updatedRecords = await this.#getStoredRecords(results) as T[];
+        await this.#decryptRecords(updatedRecords);
+        return updatedRecords;
+    }
+    /**
+    * Remove `Record`s from the object store, and notify subscribers once the change has been committed.  
+    * Every hard delete goes through this function, so that the remove hooks are called for each one.
+    * @param ids the ids of the `Record`s to remove
+    * @param transaction the transaction to remove the records in
+    * @param options `RecordWriteOptions` values, for replacements
+    * @returns an array of `boolean` values to indicate success
+    */
+    async #deleteRecords(ids: string[], transaction: RecordBackendTransaction = this.openTransaction(), options?: RecordWriteOptions): Promise<boolean[]>
+    {
+        const history = (options?.isReplace == true) ? undefined : this.#options?.history;
+        const objectStore = transaction.objectStore(this.#storeName);
+        const context: RecordHookContext = { storeName: this.#storeName, operation: 'remove', transaction };
+        try
+        {
+            // the hooks are called with the records, so they have to be read before they're removed
+            const hasHooks = this.#options?.beforeRemove != null || this.#options?.afterRemove != null;
+            const records = (hasHooks || history != null) ? (await Promise.all(ids.map(id => this.#request<T|undefined>(objectStore.get(id), 'get', id)))).filter(item => item != null) : [];
+            await this.#runHooks('beforeRemove', records as T[], context);
+
+            // deleting multiple records in indexedDB is weird;
+            // they prefer you do it one at a time, so that's
+            // what has been abstracted here.
+            for(let i = 0; i < ids.length; i++)
+            {
+                await this.#request(objectStore.delete(ids[i]), 'delete', ids[i]);
+            }
+            if(options?.isLogged != false) { await this.#logChanges(transaction, 'remove', ids.map(id => ({ id, payload: null }))); }
+            history?.record(transaction, (records as T[]).map(record => ({ storeName: this.#storeName, id: record.id, operation: 'remove', before: record, after: null })));
+            await this.#runHooks('afterRemove', records as T[], context);
+        }
+        catch(error)
+        {
+            this.#abortTransaction(transaction);
+            throw RecordSetterError.from(error, { storeName: this.#storeName, operation: 'delete', key: ids });
+        }
+
+        this.#notifyOnComplete(transaction, 'remove', ids);
+        return ids.map(() => true);
+    }
+    /**
+    * Set or delete the `deletedTimestamp` property of a copy of a stored record
+    * @param stored the stored record
+    * @param isDeleted `true` to set the property to the runtime value of `Date.now()`, `false` to delete it
+    * @returns the updated copy of the record
+    */
+    #applyDeletedTimestamp(stored: T, isDeleted: boolean): T
+    {
+        const record = { ...stored };
+        const fields = record as unknown as { [key: string]: unknown };
+        if(isDeleted) { fields[this.#softDeleteTimestampPropertyName] = Date.now(); }
+        else { delete fields[this.#softDeleteTimestampPropertyName]; }
+        return record;
+    }
+    /**
+    * Apply a patch to a copy of a stored record
+    * @param stored the stored record, if it exists
+    * @param patch the `RecordPatch` to apply, with the id of the record
+    * @returns the patched copy of the record
+    */
+    #applyPatch(stored: T|undefined, patch: T): T
+    {
+        const isDeleted = stored != null && this.#useSoftDelete && (stored as unknown as { [key: string]: unknown })[this.#softDeleteTimestampPropertyName] != null;
+        if(stored == null || isDeleted) { throw new RecordSetterError(`The record "${patch.id}" can't be patched, since it doesn't exist in the "${this.#storeName}" store.`, { storeName: this.#storeName, operation: 'patch', key: patch.id }); }
+
+        const record = structuredClone(stored) as unknown as { [key: string]: unknown };
+        for(const [path, value] of Object.entries(patch))
+        {
+            if(path == 'id') { continue; }
+            const names = path.split('.');
+            if(names.some(name => RecordStore.#unsafePathNames.includes(name)))
+            {
+                throw new RecordSetterError(`The "${path}" path can't be patched, since it names an object's prototype.`, { storeName: this.#storeName, operation: 'patch', key: patch.id });
+            }
+            if(names.length > 1 && this.#encryptedFields.includes(names[0]))
+            {
+                throw new RecordSetterError(`The "${path}" path can't be patched, since the "${names[0]}" field is encrypted; patch the whole field instead.`, { storeName: this.#storeName, operation: 'patch', key: patch.id });
+            }
+
+            // missing objects along the path are created; only the record's own properties are followed
+            let target = record;
+            for(const name of names.slice(0, -1))
+            {
+                const isObject = Object.prototype.hasOwnProperty.call(target, name) && target[name] != null && typeof target[name] == 'object';
+                if(!isObject) { target[name] = {}; }
+                target = target[name] as { [key: string]: unknown };
+            }
+            const name = names[names.length - 1];
+            if(value === undefined) { delete target[name]; }
+            else { target[name] = value; }
+        }
+        return record as unknown as T;
+    }
+    /**
+    * Set the created and updated timestamp properties of records that are being stored, when this store maintains timestamps.  
+    * Records that don't have a created timestamp keep the one that is already stored for them, if there is one.
+    * @param records the `Record`s that are being stored
+    * @param storedRecords the currently stored versions of the records, by index, if they were read
+    */
+    #applyTimestamps(records: T[], storedRecords: (T|undefined)[])
+    {
+        if(!this.#useTimestamps) { return; }
+
+        const now = Date.now();
+        for(let i = 0; i < records.length; i++)
+        {
+            const record = records[i] as unknown as { [key: string]: unknown };
+            if(record[this.#createdTimestampPropertyName] == null)
+            {
+                const stored = storedRecords[i] as unknown as { [key: string]: unknown }|undefined;
+                record[this.#createdTimestampPropertyName] = stored?.[this.#createdTimestampPropertyName] ?? now;
+            }
+            record[this.#updatedTimestampPropertyName] = now;
+        }
+    }
+    /**
+    * Set the search tokens property of records that are being stored, when this store has `search` properties
+    * @param records the `Record`s that are being stored
+    */
+    #applySearchTokens(records: T[])
+    {
+        if(this.#searchPropertyNames.length == 0) { return; }
+
+        for(let i = 0; i < records.length; i++)
+        {
+            const record = records[i] as unknown as { [key: string]: unknown };
+            record[this.#searchTokensPropertyName] = this.#tokenize(this.#searchPropertyNames.map(name => record[name]));
+        }
+    }
+    /**
+    * Split values into the unique, lowercased words they contain
+    * @param values the values to split; `string` and `number` values, and arrays of them, are used, and other values are ignored
+    * @returns the words in the values
+    */
+    #tokenize(values: unknown[]): string[]
+    {
+        const tokens = new Set<string>();
+        for(const value of values.flat())
+        {
+            if(typeof value != 'string' && typeof value != 'number') { continue; }
+            for(const token of String(value).toLowerCase().split(/[^\p{L}\p{N}]+/u))
+            {
+                if(token.length > 0) { tokens.add(token); }
+            }
+        }
+        return Array.from(tokens);
+    }
+    /**
+    * Check that records being stored have the same revision as the stored records they replace, and increment their revisions
+    * @param records the `Record`s that are being stored
+    * @param storedRecords the currently stored versions of the records, by index
+    * @returns a function that sets the records' revisions back to what they were
+    */
+    #applyRevisions(records: T[], storedRecords: (T|undefined)[])
+    {
+        const getRevision = (record: T|undefined) => (record as unknown as { [key: string]: number|undefined }|undefined)?.[this.#revisionPropertyName];
+        for(let i = 0; i < records.length; i++)
+        {
+            const stored = storedRecords[i];
+            if(stored != null && getRevision(stored) !== getRevision(records[i]))
+            {
+                throw new VersionConflictError<T>(this.#storeName, stored);
+            }
+        }
+
+        const revisions = records.map(record => getRevision(record));
+        for(let i = 0; i < records.length; i++)
+        {
+            (records[i] as unknown as { [key: string]: number })[this.#revisionPropertyName] = (getRevision(storedRecords[i]) ?? 0) + 1;
+        }
+        return () =>
+        {
+            for(let i = 0; i < records.length; i++)
+            {
+                (records[i] as unknown as { [key: string]: number|undefined })[this.#revisionPropertyName] = revisions[i];
+            }
+        };
+    }
+    /**
+    * Call one of this store's hooks with each record, in order
+    * @param hook the name of the hook to call
+    * @param records the `Record`s to call the hook with
+    * @param context the `RecordHookContext` to call the hook with
+    */
+    async #runHooks(hook: 'beforeSave'|'afterSave'|'beforeRemove'|'afterRemove', records: T[], context: RecordHookContext)
+    {
+        if(this.#options?.[hook] == null) { return; }
+        for(let i = 0; i < records.length; i++)
+        {
+            await this.#options[hook]!(records[i], context);
+        }
+    }
+    /**
+    * Wait for a request to succeed
+    * @param request the `IDBRequest` to wait for
+    * @param operation the name of the operation, for the error the request rejects with
+    * @param key the key the request is using, for the error the request rejects with
+    * @returns the result of the request
+    */
+    #request<R>(request: RecordBackendRequest, operation: string, key?: unknown): Promise<R>
+    {
+        return new Promise<R>((resolve, reject) =>
+        {
+            request.onsuccess = () => { resolve(request.result as R); }
+            request.onerror = (event: Event) => { reject(this.#toError(event, operation, key)); }
+        });
+    }
+    /**
+    * Convert the error event of a request in this store to a `RecordSetterError`
+    * @param event the `error` event of the request
+    * @param operation the name of the operation that failed
+    * @param key the key the operation was using
+    * @returns the matching `RecordSetterError`
+    */
+    #toError(event: Event, operation: string, key?: unknown)
+    {
+        return RecordSetterError.from(event, { storeName: this.#storeName, operation, key });
+    }
+    /**
+    * Abort a transaction that failed, unless this store is bound to it; bound transactions are left for whatever opened them
+    * @param transaction the transaction to abort
+    */
+    #abortTransaction(transaction: RecordBackendTransaction)
+    {
+        if(this.#transaction != null) { return; }
+        try { transaction.abort(); }
+        catch(_) { /* the transaction has already finished */ }
+    }
+
+    /**
+    * Remove a `Record` managed by this store.  
+    * If this store has been configured to "soft delete" records, this function will set the 
+    * configured `deletedTimestamp` property to the runtime value of `Date.now()`
+    * @param id the id of the `Record` to remove
+    * @param overrideSoftDelete force this function to remove the record from the store, rather than allowing it to set the `deletedTimestamp` property 
+    * @returns a `boolean` to indicate success
+    */
+    removeRecord(id: string, overrideSoftDelete: boolean = false):  Promise<boolean>
+    {
+        if(this.#hasDeleteRules())
+        {
+            return this.#removeWithRelations([id], overrideSoftDelete).then(results => results[0]);
+        }
+        if(!overrideSoftDelete && this.#useSoftDelete)
+        {
+            return this.setIsDeletedSingle(id, true);
+        }
+        return this.#deleteRecords([id]).then(results => results[0]);
+    }
+    /**
+    * Remove `Record`s managed by this store.  
+    * If this store has been configured to "soft delete" records, this function will set the 
+    * configured `deletedTimestamp` properties to the runtime value of `Date.now()`
+     * @param ids the id of the `Record`s to remove
+     * @param overrideSoftDelete force this function to remove the records from the store, rather than allowing it to set their `deletedTimestamp` properties 
+     * @returns an array of `boolean` values to indicate success
+     */
+    removeRecords(ids: string[], overrideSoftDelete: boolean = false):  Promise<boolean[]>
+    {
+        if(this.#hasDeleteRules())
+        {
+            return this.#removeWithRelations(ids, overrideSoftDelete);
+        }
+        if(!overrideSoftDelete && this.#useSoftDelete)
+        {
+            return this.setIsDeletedMultiple(ids, true);
+        }
+        return this.#deleteRecords(ids);
+    }
+
+    /**
+     * Check whether removing this store's records affects the records of related stores
+     * @returns `true` if any `hasMany` relation has an `onDelete` rule
+     */
+    #hasDeleteRules()
+    {
+        return Object.values(this.#options?.relations ?? {}).some(relation => relation.type == 'hasMany' && (relation.onDelete ?? 'none') != 'none');
+    }
+    /**
+     * Remove records after applying the `onDelete` rules of this store's relations, in a single transaction.  
+     * Related records are removed by their own store, so they follow that store's soft delete option and relations.
+     * @param ids the ids of the `Record`s to remove
+     * @param overrideSoftDelete force the records, and the records that are removed along with them, to be removed from their stores
+     * @returns an array of `boolean` values to indicate success
+     */
+    async #removeWithRelations(ids: string[], overrideSoftDelete: boolean): Promise<boolean[]>
+    {
+        if(this.#transaction == null)
+        {
+            // every cascade has to be part of the same transaction, so that a
+            // restricted relation further down can roll back the whole removal
+            if(this.#database == null) { throw new DatabaseNotOpenError({ storeName: this.#storeName }); }
+            const transaction = this.#database.transaction(this.#getRelatedTables(true), 'readwrite');
+            try
+            {
+                return await this.withTransaction(transaction).#removeWithRelations(ids, overrideSoftDelete);
+            }
+            catch(error)
+            {
+                try { transaction.abort(); }
+                catch(_) { /* the transaction has already finished */ }
+                throw error;
+            }
+        }
+
+        const relations = Object.values(this.#options?.relations ?? {}).filter(relation => relation.type == 'hasMany');
+        for(const relation of relations)
+        {
+            const onDelete = relation.onDelete ?? 'none';
+            if(onDelete == 'none') { continue; }
+
+            const relatedStore = this.#getRelatedStore(relation).withTransaction(this.#transaction);
+            const relatedIds: string[] = [];
+            for(let i = 0; i < ids.length; i++)
+            {
+                // records that are already soft-deleted only matter when they're being removed for good
+                const relatedRecords = await relatedStore.query({ [relation.key]: ids[i] }, undefined, { includeDeleted: overrideSoftDelete });
+                relatedIds.push(...relatedRecords.map(item => item.id));
+            }
+            if(relatedIds.length == 0) { continue; }
+
+            if(onDelete == 'restrict')
+            {
+                throw new ConstraintViolationError(`Unable to remove records from the "${this.#storeName}" store while they have related records in the "${relation.store}" store.`, { storeName: this.#storeName, operation: 'remove', key: ids });
+            }
+            await relatedStore.removeRecords(relatedIds, overrideSoftDelete);
+        }
+
+        if(!overrideSoftDelete && this.#useSoftDelete)
+        {
+            return this.setIsDeletedMultiple(ids, true);
+        }
+        const store = this.withTransaction(this.#transaction);
+        // clear the relations from the bound copy, so it removes its own records directly
+        store.#options = { ...this.#options, relations: undefined };
+        return store.removeRecords(ids, true);
+    }
+    /**
+     * Load related records into each record, as a property named after the relation
+     * @param transaction a transaction whose scope includes the related stores
+     * @param records the records to load related records into
+     * @param include the names of the relations to load
+     */
+    async #loadRelations(transaction: RecordBackendTransaction, records: T[], include: string[])
+    {
+        for(const name of include)
+        {
+            const relation = this.#options?.relations?.[name];
+            if(relation == null) { throw new RecordSetterError(`The "${this.#storeName}" store does not have a relation named "${name}".`, { storeName: this.#storeName, operation: 'include' }); }
+
+            const relatedStore = this.#getRelatedStore(relation).withTransaction(transaction);
+            for(let i = 0; i < records.length; i++)
+            {
+                const record = records[i] as unknown as { [key: string]: unknown };
+                if(relation.type == 'hasMany')
+                {
+                    record[name] = await relatedStore.query({ [relation.key]: record.id });
+                }
+                else
+                {
+                    const relatedId = record[relation.key];
+                    record[name] = (relatedId == null) ? null : await relatedStore.getRecord(relatedId as string);
+                }
+            }
+        }
+    }
+    /**
+     * Open a readonly transaction whose scope includes the stores of the relations that will be loaded
+     * @param include the names of the relations that will be loaded
+     * @returns the bound transaction, if this store is bound to one, or a new transaction
+     */
+    #openReadTransaction(include?: string[])
+    {
+        if(this.#transaction != null || include == null || include.length == 0) { return this.openTransaction('readonly'); }
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName: this.#storeName }); }
+
+        const tables = new Set(this.#tables);
+        for(const name of include)
+        {
+            const relation = this.#options?.relations?.[name];
+            if(relation != null) { tables.add(relation.store); }
+        }
+        return this.#database.transaction(Array.from(tables), 'readonly');
+    }
+    /**
+     * Collect the names of this store's tables and the stores of its relations
+     * @param onlyDeleteRules when `true`, only follow `hasMany` relations with an `onDelete` rule, through every store they lead to
+     * @param tables the set to add the names to
+     * @param visited the names of the stores whose relations have already been followed; a store's tables can include other stores, so they can't tell
+     * @returns an array of the table names
+     */
+    #getRelatedTables(onlyDeleteRules: boolean, tables: Set<string> = new Set(), visited: Set<string> = new Set()): string[]
+    {
+        if(visited.has(this.#storeName)) { return Array.from(tables); }
+        visited.add(this.#storeName);
+        this.#tables.forEach(item => tables.add(item));
+        tables.add(this.#storeName);
+
+        for(const relation of Object.values(this.#options?.relations ?? {}))
+        {
+            if(onlyDeleteRules && (relation.type != 'hasMany' || (relation.onDelete ?? 'none') == 'none')) { continue; }
+            this.#getRelatedStore(relation).#getRelatedTables(onlyDeleteRules, tables, visited);
+        }
+        return Array.from(tables);
+    }
+    /**
+     * Get the store that a relation refers to
+     * @param relation the relation to get the store of
+     * @returns the related `RecordStore`
+     */
+    #getRelatedStore(relation: RecordRelation)
+    {
+        return this.#resolveStore?.(relation.store) ?? new RecordStore(this.#database, relation.store, [relation.store], undefined, this.#resolveStore, this.#backend);
+    }
+    /**
+     * Restore a 'Record` that has been removed using the "soft delete" method.
+     * @param id the id of the `Record` to restore
+     * @returns a `boolean` to indicate success
+     */
+    restoreRecord = (id: string) => this.setIsDeletedSingle(id, false);
+    /**
+     * Restore 'Record`s that have been removed using the "soft delete" method.
+     * @param ids the ids of the `Record`s to restore
+     * @returns an array of `boolean` values to indicate success
+     */
+    restoreRecords = (ids: string[]) => this.setIsDeletedMultiple(ids, false);
+
+    /**
+     * Set the `deletedTimestamp` property of an `IRestorable` record.
+     * @param id the id of the `Record` to update
+     * @param value determines whether to set or delete the property. To set the property, this value should be `true`. To delete the property, this value should be `false`.
+     * @returns a `boolean` to indicate success; `false` if the record doesn't exist
+     */
+    async setIsDeletedSingle(id: string, value: boolean)
+    {
+        const [result] = await this.setIsDeletedMultiple([id], value);
+        return result;
+    }
+    /**
+     * Set the `deletedTimestamp` properties of multpile `IRestorable` records to the same value.
+     * @param ids the ids of the `Record`s to update
+     * @param value determines whether to set or delete the property. To set the property, this value should be `true`. To delete the property, this value should be `false`.
+     * @returns an array of `boolean` values to indicate success; `false` for the records that don't exist
+     */
+    async setIsDeletedMultiple(ids: string[], value: boolean)
+    {
+        // the records are read in the same transaction that updates them, so only their ids are passed
+        const targets = ids.map(id => ({ id }) as T);
+        const updated = await this.#updateRecords(targets, (value == true) ? 'remove' : 'restore', { setDeleted: value == true });
+        const updatedIds = new Set(updated.map(record => record.id));
+        return ids.map(id => updatedIds.has(id));
+    }
+    /**
+     * Get the `Record`s that have been removed using the "soft delete" method
+     * @param sortKey a property of the records to use as key for sorting them by, or a `RecordSort` describing multiple keys and directions
+     * @param options `limit` and `offset` values, to only get a portion of the records, and the relations to `include`
+     * @returns an array of the soft-deleted `Record`s
+     */
+    listDeleted(sortKey?: RecordSort, options?: RecordQueryOptions): Promise<T[]>
+    {
+        return this.query({}, sortKey, { ...options, includeDeleted: true, onlyDeleted: true });
+    }
+    /**
+     * Permanently remove `Record`s that have been removed using the "soft delete" method, in a single transaction.  
+     * The remove hooks are called for each purged record. Relations' `onDelete` rules are not applied; records that were removed along with a purged record are purged by their own store.
+     * @example await store.purgeDeleted({ olderThan: Date.now() - (30 * 24 * 60 * 60 * 1000) });
+     * @param options `RecordPurgeOptions` values, like the time that records must have been deleted before
+     * @returns the ids of the purged `Record`s
+     */
+    async purgeDeleted(options?: RecordPurgeOptions): Promise<string[]>
+    {
+        const cutoff = (options?.olderThan == null) ? null : new Date(options.olderThan).getTime();
+        const transaction = this.openTransaction('readwrite');
+        const ids = await new Promise<string[]>((resolve, reject) =>
+        {
+            const purged: string[] = [];
+            const request = transaction.objectStore(this.#storeName).openCursor();
+            request.onsuccess = () =>
+            {
+                const cursor = request.result;
+                if(cursor == null) { resolve(purged); return; }
+
+                const deletedTimestamp = (cursor.value as { [key: string]: unknown })[this.#softDeleteTimestampPropertyName];
+                if(deletedTimestamp != null && (cutoff == null || new Date(deletedTimestamp as number|Date).getTime() < cutoff))
+                {
+                    purged.push(cursor.primaryKey as string);
+                }
+                cursor.continue();
+            }
+            request.onerror = (event: Event) => { reject(this.#toError(event, 'purgeDeleted')); }
+        });
+
+        if(ids.length > 0) { await this.#deleteRecords(ids, transaction); }
+        return ids;
+    }
+
+    /**
+     * Remove all records managed by this store
+     * @returns a `boolean` to indicate success
+     */
+    clear()
+    {
+        return new Promise((resolve, reject) =>
+        {
+            const transaction = this.openTransaction();
+            const objectStore = transaction.objectStore(this.#storeName);
+            const request = objectStore.clear();
+            request.onsuccess = (event: Event) =>
+            {
+                this.#notifyOnComplete(transaction, 'clear', []);
+                const value = (event.target as unknown as { result: boolean }).result;
+                this.#logChanges(transaction, 'clear', [{ id: null, payload: null }]).then(() => { resolve(value); }, reject);
+            }
+            request.onerror = (event: Event) => { reject(this.#toError(event, 'clear')); }
+        });
+    }
+
+    /**
+     * Listen for changes to this store's `Record`s.  
+     * Listeners are called once the transaction that made the change has been committed.
+     * If this store is managed by a `RecordSetter`, changes made by other tabs are also reported, with `remote` set to `true`.
+     * @param listener the function to call with each `RecordChangeEvent`
+     * @returns a function that removes the listener
+     */
+    subscribe(listener: RecordChangeListener)
+    {
+        this.#listeners.add(listener);
+        return () => { this.#listeners.delete(listener); };
+    }
+    /**
+     * Report a change to this store's subscribers.  
+     * This is called by the store itself after each change, and by `RecordSetter` to relay changes made by other tabs.
+     * @param event the change to report
+     */
+    publishChange(event: RecordChangeEvent)
+    {
+        this.#invalidateCache(event.operation, event.ids);
+        for(const listener of Array.from(this.#listeners))
+        {
+            listener(event);
+        }
+    }
+    /**
+     * Publish a change once the transaction it was made in has been committed
+     * @param transaction the transaction the change was made in
+     * @param operation the operation that made the change
+     * @param ids the ids of the affected `Record`s
+     */
+    #notifyOnComplete(transaction: RecordBackendTransaction, operation: RecordChangeOperation, ids: string[])
+    {
+        // cached records are invalidated right away, so that reads made before the change is committed aren't served stale records,
+        // and again when it is committed, through `publishChange`, so that reads made in between aren't cached
+        this.#invalidateCache(operation, ids);
+        if(this.#listeners.size == 0 && this.#cache == null) { return; }
+        transaction.addEventListener('complete', () =>
+        {
+            this.publishChange({ storeName: this.#storeName, operation, ids });
+        });
+    }
+
+    /**
+     * Get the usage of this store's read cache, for tuning its `RecordCacheOptions`
+     * @returns the `RecordCacheStats`, or `null` if this store doesn't have a `cache` configured
+     */
+    getCacheStats(): RecordCacheStats|null
+    {
+        return this.#cache?.getStats() ?? null;
+    }
+    /**
+     * Remove all records from this store's read cache, so that they are read from the database again.  
+     * The cache's stats are kept.
+     */
+    clearCache()
+    {
+        this.#cache?.invalidate(null);
+    }
+    /**
+     * Get the cache that a read can be served from
+     * @param options the options of the read
+     * @returns the store's cache, or `undefined` if it doesn't have one, or the read can't use it
+     */
+    #getReadCache(options?: RecordReadOptions)
+    {
+        // reads in a transaction must see its uncommitted changes, and related records aren't cached
+        if(this.#transaction != null || (options?.include != null && options.include.length > 0)) { return undefined; }
+        return this.#cache;
+    }
+    /**
+     * Remove changed records from this store's read cache
+     * @param operation the operation that changed the records
+     * @param ids the ids of the changed records
+     */
+    #invalidateCache(operation: RecordChangeOperation, ids: (string|number)[])
+    {
+        this.#cache?.invalidate((operation == 'clear') ? null : ids.map(id => String(id)));
+    }
+
+    /**
+     * Append changes to the change log, if this store has a `changeLogTableName`
+     * @param transaction the transaction that makes the changes
+     * @param operation the operation that made the changes
+     * @param changes the ids of the changed records, and the records as they were stored, or `null` if they were removed
+     * @returns a `Promise` that resolves once the changes have been appended
+     */
+    async #logChanges(transaction: RecordBackendTransaction, operation: RecordChangeOperation, changes: { id: string|null, payload: unknown }[])
+    {
+        if(this.#changeLogTableName == null || changes.length == 0) { return; }
+        const timestamp = Date.now();
+        await RecordChangeLog.append(transaction, this.#changeLogTableName, changes.map(change => ({ storeName: this.#storeName, id: change.id, operation, payload: change.payload, timestamp })));
+    }
+    /**
+     * Encrypt the `encrypt` fields of records that are about to be stored
+     * @param records the records to encrypt
+     * @returns copies of the records, with their fields encrypted, or the records themselves if none of their fields need to be
+     */
+    async #encryptRecords(records: T[]): Promise<T[]>
+    {
+        if(this.#cipher == null) { return records; }
+        this.#checkEncryptedFields();
+
+        const cipher = this.#cipher;
+        const isEncryptionNeeded = (value: unknown) => value != null && !RecordCipher.isEncrypted(value);
+        const fields = records.map(record => this.#encryptedFields.filter(field => isEncryptionNeeded((record as unknown as { [key: string]: unknown })[field])));
+        if(fields.every(item => item.length == 0)) { return records; }
+        if(this.#transaction != null)
+        {
+            throw new RecordSetterError(`The "${this.#storeName}" store can't encrypt records in a transaction, since the transaction would commit while they're being encrypted.`, { storeName: this.#storeName, operation: 'encrypt' });
+        }
+
+        return Promise.all(records.map(async (record, index) =>
+        {
+            const copy = { ...record } as unknown as { [key: string]: unknown };
+            for(const field of fields[index])
+            {
+                copy[field] = await cipher.encrypt(copy[field]);
+            }
+            return copy as unknown as T;
+        }));
+    }
+    /**
+     * Decrypt the `encrypt` fields of records that have been read, in place.  
+     * Decrypting would let a bound transaction commit early, so records that are read in a transaction keep their encrypted fields.
+     * @param records the records to decrypt
+     * @param include the names of the relations that were loaded into the records, whose records are decrypted by their own stores
+     */
+    async #decryptRecords(records: (T|null|undefined)[], include?: string[])
+    {
+        if(this.#transaction != null) { return; }
+
+        const cipher = this.#cipher;
+        if(cipher != null)
+        {
+            await Promise.all(records.map(async (record) =>
+            {
+                if(record == null) { return; }
+                const values = record as unknown as { [key: string]: unknown };
+                for(const field of this.#encryptedFields)
+                {
+                    const value = values[field];
+                    if(!RecordCipher.isEncrypted(value)) { continue; }
+                    try
+                    {
+                        values[field] = await cipher.decrypt(value);
+                    }
+                    catch(error)
+                    {
+                        throw RecordSetterError.from(error, { storeName: this.#storeName, operation: 'decrypt', key: record.id });
+                    }
+                }
+            }));
+        }
+
+        for(const name of include ?? [])
+        {
+            const relation = this.#options?.relations?.[name];
+            if(relation == null) { continue; }
+            const related = records.flatMap(record => (record == null) ? [] : [(record as unknown as { [key: string]: unknown })[name]].flat()) as RecordBase[];
+            await this.#getRelatedStore(relation).#decryptRecords(related);
+        }
+    }
+    /**
+     * Check that none of the `encrypt` fields are indexed, or used by the store itself, since their encrypted values can't be matched
+     */
+    #checkEncryptedFields()
+    {
+        if(this.#cipher == null || this.#cipher.isChecked) { return; }
+
+        const objectStore = this.openTransaction('readonly').objectStore(this.#storeName);
+        const keyPaths = [objectStore.keyPath];
+        for(let i = 0; i < objectStore.indexNames.length; i++)
+        {
+            keyPaths.push(objectStore.index(objectStore.indexNames[i]).keyPath);
+        }
+        const indexedFields = new Set(keyPaths.flat().filter(keyPath => keyPath != null));
+        const storeFields = new Set([
+            'id',
+            ...(this.#useSoftDelete ? [this.#softDeleteTimestampPropertyName] : []),
+            ...(this.#useTimestamps ? [this.#createdTimestampPropertyName, this.#updatedTimestampPropertyName] : []),
+            ...(this.#useRevisions ? [this.#revisionPropertyName] : []),
+            ...this.#searchPropertyNames,
+        ]);
+        for(const field of this.#encryptedFields)
+        {
+            if(indexedFields.has(field)) { throw new RecordSetterError(`The "${field}" field of the "${this.#storeName}" store is indexed, so it can't be encrypted.`, { storeName: this.#storeName, operation: 'encrypt', key: field }); }
+            if(storeFields.has(field)) { throw new RecordSetterError(`The "${field}" field of the "${this.#storeName}" store is used by the store, so it can't be encrypted.`, { storeName: this.#storeName, operation: 'encrypt', key: field }); }
+        }
+        this.#cipher.isChecked = true;
+    }
+    /**
+     * Copy the fields of a record's stored copy, other than its encrypted fields, to the record
+     * @param record the record that was passed in to be stored
+     * @param stored the copy of the record that was stored, with its fields encrypted
+     */
+    #assignUnencryptedFields(record: T, stored: T)
+    {
+        const values = record as unknown as { [key: string]: unknown };
+        for(const [field, value] of Object.entries(stored))
+        {
+            if(!this.#encryptedFields.includes(field)) { values[field] = value; }
+        }
+    }
+
+    
+}
+
+/** A single `IDBTransaction` that is shared by every `RecordStore` it provides, so that their operations commit, or roll back, together. */
+export class RecordTransaction
+{
+    #transaction: RecordBackendTransaction;
+    #getStore: (name: string) => RecordStore<RecordBase>;
+    #stores: Map<string, RecordStore<RecordBase>> = new Map();
+
+    /**
+     * A single `IDBTransaction` that is shared by every `RecordStore` it provides.
+     * @param transaction the transaction to share
+     * @param getStore a function that provides the `RecordStore` to bind to the transaction, by name
+     */
+    constructor(transaction: RecordBackendTransaction, getStore: (name: string) => RecordStore<RecordBase>)
+    {
+        this.#transaction = transaction;
+        this.#getStore = getStore;
+    }
+
+    /** The underlying `IDBTransaction` */
+    get transaction() { return this.#transaction; }
+
+    /**
+     * Get a `RecordStore` whose operations all run in this transaction.
+     * @template T extends `RecordBase`
+     * @param name the name of the store to get; it must be in this transaction's scope
+     * @returns a `RecordStore` instance that manages `Record`s of type `T`, bound to this transaction
+     */
+    store<T extends RecordBase = RecordBase, R extends RecordStore<T> = RecordStore<T>>(name: string)
+    {
+        let store = this.#stores.get(name);
+        if(store == null)
+        {
+            store = this.#getStore(name).withTransaction(this.#transaction);
+            this.#stores.set(name, store);
+        }
+        return store as unknown as R;
+    }
+}
+
+/** The records that a `RecordStore` has read, kept in memory by their ids. Once it is full, the least recently read records are removed first. */
+class RecordCache
+{
+    #entries: Map<string, { record: RecordBase, expires: number }> = new Map();
+    #maxEntries: number;
+    #ttlMs: number;
+
+    #hits: number = 0;
+    #misses: number = 0;
+    #evictions: number = 0;
+
+    /** Incremented whenever records are invalidated, so that reads which started before then don't cache the records they read */
+    generation: number = 0;
+
+    /**
+     * The records that a `RecordStore` has read, kept in memory by their ids.
+     * @param options the `RecordCacheOptions` of the store
+     */
+    constructor(options: RecordCacheOptions)
+    {
+        this.#maxEntries = Math.max(1, options.maxEntries ?? 1000);
+        this.#ttlMs = options.ttlMs ?? Infinity;
+    }
+
+    /**
+     * Get a copy of a cached record, and count the read as a hit or a miss
+     * @param id the id of the record
+     * @returns the record, or `undefined` if it isn't cached, or has expired
+     */
+    get(id: string)
+    {
+        const entry = this.#entries.get(id);
+        if(entry == null || entry.expires <= Date.now())
+        {
+            this.#entries.delete(id);
+            this.#misses++;
+            return undefined;
+        }
+        // re-inserting the entry keeps the map ordered from least to most recently read
+        this.#entries.delete(id);
+        this.#entries.set(id, entry);
+        this.#hits++;
+        return structuredClone(entry.record);
+    }
+    /**
+     * Cache a copy of a record that was read from the database
+     * @param id the id of the record
+     * @param record the record that was read
+     * @param generation the cache's `generation` from when the read started; if records were invalidated since, the record is not cached
+     */
+    set(id: string, record: RecordBase, generation: number)
+    {
+        if(generation != this.generation) { return; }
+        this.#entries.delete(id);
+        this.#entries.set(id, { record: structuredClone(record), expires: Date.now() + this.#ttlMs });
+        while(this.#entries.size > this.#maxEntries)
+        {
+            this.#entries.delete(this.#entries.keys().next().value!);
+            this.#evictions++;
+        }
+    }
+    /**
+     * Remove records from the cache
+     * @param ids the ids of the records to remove, or `null` to remove all of them
+     */
+    invalidate(ids: string[]|null)
+    {
+        this.generation++;
+        if(ids == null) { this.#entries.clear(); return; }
+        for(const id of ids) { this.#entries.delete(id); }
+    }
+    /** Get the usage of the cache */
+    getStats(): RecordCacheStats
+    {
+        return { hits: this.#hits, misses: this.#misses, evictions: this.#evictions, size: this.#entries.size, maxEntries: this.#maxEntries };
+    }
+}
+
+/** Appends changes to the change log that a `SyncManager` pushes from, in the transactions that make them */
+class RecordChangeLog
+{
+    static #counter: number = 0;
+
+    /**
+     * Append changes to the change log
+     * @param transaction the transaction that makes the changes; its scope must include the change log
+     * @param tableName the name of the change log table
+     * @param changes the changes to append
+     * @returns a `Promise` that resolves once the changes have been appended
+     */
+    static append(transaction: RecordBackendTransaction, tableName: string, changes: RecordSyncChange[])
+    {
+        const objectStore = transaction.objectStore(tableName);
+        return Promise.all(changes.map(change => new Promise<void>((resolve, reject) =>
+        {
+            const entry: RecordChangeLogEntry = { ...change, sequence: RecordChangeLog.#createSequence() };
+            const request = objectStore.add(entry);
+            request.onsuccess = () => { resolve(); }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName: tableName, operation: 'add', key: entry.sequence })); }
+        })));
+    }
+    /**
+     * Check whether an entry of the change log table is a change, rather than the state that a `SyncManager` keeps with them
+     * @param entry the entry to check
+     * @returns `true` if the entry is a `RecordChangeLogEntry`
+     */
+    static isEntry(entry: unknown): entry is RecordChangeLogEntry
+    {
+        return typeof (entry as RecordChangeLogEntry).sequence == 'string';
+    }
+    /**
+     * Create a key for a new entry, which sorts after the entries this tab has already made
+     * @returns the key
+     */
+    static #createSequence()
+    {
+        // the time orders entries between tabs, the counter orders them within one, and the id keeps them unique
+        const time = Date.now().toString(36).padStart(9, '0');
+        const counter = (RecordChangeLog.#counter++).toString(36).padStart(6, '0');
+        return `${time}-${counter}-${RecordSetter.generateId()}`;
+    }
+}
+
+/** Encrypts values into `RecordEncryptedValue`s with an AES-GCM key, and decrypts them again */
+class RecordCipher
+{
+    #key: CryptoKey;
+
+    /** Whether the fields that a store encrypts have been checked against its indexes */
+    isChecked: boolean = false;
+
+    /**
+     * Encrypts values into `RecordEncryptedValue`s with an AES-GCM key, and decrypts them again
+     * @param key the AES-GCM key to use
+     */
+    constructor(key: CryptoKey)
+    {
+        this.#key = key;
+    }
+
+    /**
+     * Check whether a value has been encrypted
+     * @param value the value to check
+     * @returns `true` if the value is a `RecordEncryptedValue`
+     */
+    static isEncrypted(value: unknown): value is RecordEncryptedValue
+    {
+        return value != null && typeof value == 'object' && (value as RecordEncryptedValue).$encrypted == 'AES-GCM';
+    }
+    /**
+     * Encrypt a value, with a new initialization vector
+     * @param value a `Blob`, or a value that can be represented in JSON
+     * @returns the encrypted value
+     */
+    async encrypt(value: unknown): Promise<RecordEncryptedValue>
+    {
+        const iv = crypto.getRandomValues(new Uint8Array(12));
+        const bytes = (value instanceof Blob) ? await value.arrayBuffer() : new TextEncoder().encode(JSON.stringify(value));
+        const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.#key, bytes);
+        const encrypted: RecordEncryptedValue = { $encrypted: 'AES-GCM', iv: RecordCipher.#toBase64(iv), data: RecordCipher.#toBase64(new Uint8Array(data)) };
+        if(value instanceof Blob) { encrypted.blobType = value.type; }
+        return encrypted;
+    }
+    /**
+     * Decrypt a value that was encrypted by `encrypt`
+     * @param value the encrypted value
+     * @returns the original value
+     */
+    async decrypt(value: RecordEncryptedValue): Promise<unknown>
+    {
+        const iv = RecordCipher.#fromBase64(value.iv);
+        const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, this.#key, RecordCipher.#fromBase64(value.data));
+        if(value.blobType != null) { return new Blob([data], { type: value.blobType }); }
+        return JSON.parse(new TextDecoder().decode(data));
+    }
+
+    /**
+     * Encode bytes in base64, so that encrypted values can be exported as JSON
+     * @param bytes the bytes to encode
+     * @returns the base64 text
+     */
+    static #toBase64(bytes: Uint8Array)
+    {
+        let binary = '';
+        // convert in chunks, to stay under the argument limit of `fromCharCode`
+        for(let i = 0; i < bytes.length; i += 0x8000)
+        {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+    }
+    /**
+     * Decode base64 text into bytes
+     * @param text the base64 text to decode
+     * @returns the decoded bytes
+     */
+    static #fromBase64(text: string)
+    {
+        const binary = atob(text);
+        const bytes = new Uint8Array(binary.length);
+        for(let i = 0; i < binary.length; i++) { bytes[i] = binary.charCodeAt(i); }
+        return bytes;
+    }
+}
+/** The values of a settings object created by `RecordSetter.settings`, kept in memory so that its properties can be read synchronously */
+class RecordSettingsState<D extends { [K in keyof D]: RecordSetterValue }, S extends RecordSetterSchema = RecordSetterSchema>
+{
+    /** The names of the methods of a settings object, which can't be used as the names of settings */
+    static readonly methodNames = ['reset', 'subscribe', 'flush', 'dispose'];
+
+    #setter: RecordSetter<S>;
+    #storeName: string;
+    #defaults: D;
+    #values: Map<string, unknown> = new Map();
+    #pending: Map<string, unknown> = new Map();
+    #listeners: Set<RecordSettingsListener<D>> = new Set();
+    #writing: Promise<void> = Promise.resolve();
+    #isScheduled: boolean = false;
+    #changeListener: RecordChangeListener;
+
+    /**
+     * Keeps the values of a settings object, and writes its changes to the key/value store
+     * @template D the settings and their default values
+     * @template S the schema of the `RecordSetter`
+     * @param setter the `RecordSetter` whose key/value store the settings are kept in
+     * @param storeName the name of the key/value store
+     * @param defaults the default values of the settings
+     * @param values the stored values of the settings, in the order of the keys of `defaults`; `null` for settings that aren't stored
+     */
+    constructor(setter: RecordSetter<S>, storeName: string, defaults: D, values: unknown[])
+    {
+        this.#setter = setter;
+        this.#storeName = storeName;
+        this.#defaults = defaults;
+        Object.keys(defaults).forEach((key, index) => { if(values[index] != null) { this.#values.set(key, values[index]); } });
+
+        // changes made by the key/value methods, and by other tabs, are read back into the settings
+        this.#changeListener = (event: RecordChangeEvent) => { this.#receiveChange(event); };
+        setter.on('change', this.#changeListener);
+    }
+
+    /**
+     * Create the `Proxy` whose properties are the settings, and whose methods control them
+     * @returns the settings object
+     */
+    createProxy(): RecordSettings<D>
+    {
+        const methods: RecordSettingsMethods<D> =
+        {
+            reset: (key?: keyof D & string) => this.reset(key),
+            subscribe: (listener: RecordSettingsListener<D>) => this.subscribe(listener),
+            flush: () => this.flush(),
+            dispose: () => this.dispose(),
+        };
+        return new Proxy({}, {
+            get: (_, property) =>
+            {
+                if(typeof property != 'string') { return undefined; }
+                if(RecordSettingsState.methodNames.includes(property)) { return methods[property as keyof RecordSettingsMethods<D>]; }
+                return this.#isSetting(property) ? this.get(property) : undefined;
+            },
+            set: (_, property, value) =>
+            {
+                if(typeof property != 'string' || !this.#isSetting(property)) { throw new RecordSetterError(`"${String(property)}" isn't one of the settings; add it to the defaults to store it.`, { storeName: this.#storeName, operation: 'settings', key: String(property) }); }
+                this.set(property, value);
+                return true;
+            },
+            deleteProperty: (_, property) =>
+            {
+                if(typeof property == 'string' && this.#isSetting(property)) { this.reset(property).catch(() => { /* reported by flush */ }); }
+                return true;
+            },
+            has: (_, property) => typeof property == 'string' && this.#isSetting(property),
+            ownKeys: () => Object.keys(this.#defaults),
+            getOwnPropertyDescriptor: (_, property) =>
+            {
+                if(typeof property != 'string' || !this.#isSetting(property)) { return undefined; }
+                return { value: this.get(property), writable: true, enumerable: true, configurable: true };
+            },
+        }) as RecordSettings<D>;
+    }
+    /**
+     * Get the value of a setting
+     * @param key the name of the setting
+     * @returns the stored value of the setting, or its default value if it isn't stored
+     */
+    get(key: string)
+    {
+        return this.#values.get(key) ?? this.#defaults[key as keyof D];
+    }
+    /**
+     * Change the value of a setting, and write it to the key/value store along with the other settings changed in the same tick
+     * @param key the name of the setting
+     * @param value the new value; `undefined` resets the setting to its default value
+     */
+    set(key: string, value: unknown)
+    {
+        if(value === undefined) { this.reset(key).catch(() => { /* reported by flush */ }); return; }
+        const previous = this.get(key);
+        this.#values.set(key, value);
+        this.#pending.set(key, value);
+        this.#scheduleWrite();
+        this.#notify(key, previous);
+    }
+    /**
+     * Reset a setting to its default value, by removing it from the key/value store
+     * @param key the name of the setting; resets every setting when it's not set
+     * @returns a `Promise` that resolves once the settings have been removed from the store
+     */
+    reset(key?: string)
+    {
+        const keys = (key == null) ? Object.keys(this.#defaults) : [key];
+        for(const resetKey of keys)
+        {
+            const previous = this.get(resetKey);
+            this.#values.delete(resetKey);
+            this.#pending.set(resetKey, undefined);
+            this.#notify(resetKey, previous);
+        }
+        this.#scheduleWrite();
+        return this.flush();
+    }
+    /**
+     * Listen for changes to the settings, whether they're made through this object, the key/value methods, or another tab
+     * @param listener the function to call with the name and new value of each setting that changes
+     * @returns a function that stops listening
+     */
+    subscribe(listener: RecordSettingsListener<D>)
+    {
+        this.#listeners.add(listener);
+        return () => { this.#listeners.delete(listener); };
+    }
+    /**
+     * Wait for the changes made so far to be written to the key/value store
+     * @returns a `Promise` that resolves once the changes have been written, or rejects if writing them failed
+     */
+    async flush()
+    {
+        // changes made in this tick haven't started writing yet
+        await Promise.resolve();
+        await this.#writing;
+    }
+    /**
+     * Stop listening for changes to the key/value store, and remove every listener
+     */
+    dispose()
+    {
+        this.#setter.off('change', this.#changeListener);
+        this.#listeners.clear();
+    }
+
+    /**
+     * Check whether a property is one of the settings
+     * @param key the name of the property
+     * @returns `true` if the property has a default value
+     */
+    #isSetting(key: string)
+    {
+        return Object.prototype.hasOwnProperty.call(this.#defaults, key);
+    }
+    /**
+     * Write the pending changes once the current tick has finished, so that the changes made in it are written together
+     */
+    #scheduleWrite()
+    {
+        if(this.#isScheduled) { return; }
+        this.#isScheduled = true;
+        queueMicrotask(() =>
+        {
+            this.#isScheduled = false;
+            const items = Array.from(this.#pending, ([key, value]) => ({ key, value: value as RecordSetterValue }));
+            this.#pending.clear();
+            if(items.length == 0) { return; }
+
+            const previous = this.#writing;
+            this.#writing = previous.catch(() => { /* reported by the previous flush */ }).then(async () =>
+            {
+                try
+                {
+                    await this.#setter.setValues(items);
+                }
+                catch(error)
+                {
+                    // the settings go back to the values that are actually stored
+                    await this.#reload(items.map(item => item.key)).catch(() => { /* the original error is reported */ });
+                    throw error;
+                }
+            });
+            this.#writing.catch(() => { /* reported by flush */ });
+        });
+    }
+    /**
+     * Read back the settings that were changed in the key/value store by something other than this object
+     * @param event the change that was made
+     */
+    #receiveChange(event: RecordChangeEvent)
+    {
+        if(event.storeName != this.#storeName) { return; }
+        const ids = (event.operation == 'clear') ? Object.keys(this.#defaults) : event.ids.map(id => String(id));
+        // settings with changes waiting to be written keep the values they were changed to
+        const keys = ids.filter(key => this.#isSetting(key) && !this.#pending.has(key));
+        if(keys.length > 0) { this.#reload(keys).catch(() => { /* the settings keep their current values */ }); }
+    }
+    /**
+     * Read settings from the key/value store, and report the ones that have changed
+     * @param keys the names of the settings to read
+     * @returns an awaitable `Promise`
+     */
+    async #reload(keys: string[])
+    {
+        const values = await this.#setter.getValues(keys);
+        keys.forEach((key, index) =>
+        {
+            if(this.#pending.has(key)) { return; }
+            const previous = this.get(key);
+            if(values[index] == null) { this.#values.delete(key); }
+            else { this.#values.set(key, values[index]); }
+            this.#notify(key, previous);
+        });
+    }
+    /**
+     * Report a change to a setting to the listeners, if its value has changed
+     * @param key the name of the setting
+     * @param previous the value of the setting before the change
+     */
+    #notify(key: string, previous: unknown)
+    {
+        const value = this.get(key);
+        // values read back from the store are copies, so they're compared by content
+        if(value === previous || (!(value instanceof Blob) && JSON.stringify(value) == JSON.stringify(previous))) { return; }
+        for(const listener of Array.from(this.#listeners))
+        {
+            listener(key as keyof D & string, value as D[keyof D]);
+        }
+    }
+}
+
+/** A definition for an object that acts as key/value pairs to define a table schema.  
+*The key indicates the table name.  
+*The value indicates the indexes, separated by commas.
+* @example { "users": "id, name", "profiles": "id, userId", "posts": "id, [userId+postType]", [...] }
+*/
+export type RecordSetterSchema = { [key: string]: string; };
+declare const recordTypes: unique symbol;
+/** A `RecordSetterSchema` that also describes the type of `Record` that each of its stores manages, as created by `RecordSetter.defineSchema` */
+export type RecordSetterTypedSchema<S extends RecordSetterSchema, M> = S & { readonly [recordTypes]?: M };
+/** Removes the spaces around a schema entry */
+type TrimSchemaEntry<E extends string> = E extends ` ${infer R}` ? TrimSchemaEntry<R> : E extends `${infer R} ` ? TrimSchemaEntry<R> : E;
+/** Splits a schema string into a union of its entries */
+type SplitSchemaEntries<E extends string, D extends string> = E extends `${infer H}${D}${infer R}` ? H | SplitSchemaEntries<R, D> : E;
+/** The name of the property that a single schema entry indexes, without its unique marker */
+type SchemaEntryName<E extends string> = E extends string ? (TrimSchemaEntry<E> extends `!${infer N}` ? TrimSchemaEntry<N> : TrimSchemaEntry<E>) : never;
+/** The names of the properties that a schema entry indexes, including each property of a compound index */
+type SchemaEntryKeys<E extends string> = E extends string ? (TrimSchemaEntry<E> extends `[${infer C}]` ? SchemaEntryName<SplitSchemaEntries<C, '+'>> : SchemaEntryName<E>) : never;
+/** The names of the properties that a store's schema string indexes, like `'id'|'type'|'taskId'` for `"id, [type+taskId]"`.  
+* Resolves to `string` when the schema string isn't a literal type. */
+export type RecordSetterSchemaKeys<E extends string> = string extends E ? string : SchemaEntryKeys<SplitSchemaEntries<E, ','>>;
+/** The type of `Record` that a store in a schema manages; `RecordBase` unless the schema was created by `RecordSetter.defineSchema` */
+export type RecordSetterSchemaRecord<S extends RecordSetterSchema, N extends string> = S extends { readonly [recordTypes]?: infer M }
+    ? (N extends keyof M ? (M[N] extends RecordBase ? M[N] : RecordBase) : RecordBase)
+    : RecordBase;
+/** The names of the indexed properties of a store in a schema */
+export type RecordSetterSchemaIndexes<S extends RecordSetterSchema, N extends string> = N extends keyof S ? RecordSetterSchemaKeys<S[N]> : string;
+/** A `RecordStore` for a store in a schema, typed with its `Record` type and indexed properties */
+export type RecordSetterSchemaStore<S extends RecordSetterSchema, N extends string> = RecordStore<RecordSetterSchemaRecord<S, N>, RecordSetterSchemaIndexes<S, N>>;
+/** A list of object store or index names, like a `DOMStringList` */
+export interface RecordBackendNameList
+{
+    readonly length: number;
+    [index: number]: string;
+    contains(name: string): boolean;
+    item(index: number): string|null;
+}
+/** A range of keys, like an `IDBKeyRange`, as created by a `RecordSetterBackend` */
+export interface RecordBackendKeyRange
+{
+    readonly lower: IDBValidKey|undefined;
+    readonly upper: IDBValidKey|undefined;
+    readonly lowerOpen: boolean;
+    readonly upperOpen: boolean;
+    includes(key: IDBValidKey): boolean;
+}
+/** A key, or a range of keys, to match in an object store or index */
+export type RecordBackendQuery = IDBValidKey|RecordBackendKeyRange;
+/** An asynchronous request made to a backend, like an `IDBRequest`; its result is delivered to `onsuccess`, or its error to `onerror` */
+export interface RecordBackendRequest<R = unknown>
+{
+    readonly result: R;
+    readonly error: DOMException|null;
+    onsuccess: ((event: Event) => void)|null;
+    onerror: ((event: Event) => void)|null;
+}
+/** A request to open a database, like an `IDBOpenDBRequest` */
+export interface RecordBackendOpenRequest extends RecordBackendRequest<RecordBackendDatabase>
+{
+    /** The `versionchange` transaction, while the database is being upgraded */
+    readonly transaction: RecordBackendTransaction|null;
+    onupgradeneeded: ((event: IDBVersionChangeEvent) => void)|null;
+    onblocked: ((event: IDBVersionChangeEvent) => void)|null;
+}
+/** A cursor over the keys of an object store or index, like an `IDBCursor` */
+export interface RecordBackendCursor
+{
+    readonly key: IDBValidKey;
+    readonly primaryKey: IDBValidKey;
+    readonly direction: IDBCursorDirection;
+    continue(key?: IDBValidKey): void;
+    continuePrimaryKey(key: IDBValidKey, primaryKey: IDBValidKey): void;
+    delete(): RecordBackendRequest<undefined>;
+    update(value: unknown): RecordBackendRequest<IDBValidKey>;
+}
+/** A cursor over the values of an object store or index, like an `IDBCursorWithValue` */
+export interface RecordBackendCursorWithValue extends RecordBackendCursor
+{
+    readonly value: unknown;
+}
+/** The read operations that object stores and indexes share */
+export interface RecordBackendSource
+{
+    readonly name: string;
+    readonly keyPath: string|string[]|null;
+    count(query?: RecordBackendQuery|null): RecordBackendRequest<number>;
+    get(query: RecordBackendQuery): RecordBackendRequest<unknown>;
+    getAll(query?: RecordBackendQuery|null, count?: number): RecordBackendRequest<unknown[]>;
+    getAllKeys(query?: RecordBackendQuery|null, count?: number): RecordBackendRequest<IDBValidKey[]>;
+    openCursor(query?: RecordBackendQuery|null, direction?: IDBCursorDirection): RecordBackendRequest<RecordBackendCursorWithValue|null>;
+    openKeyCursor(query?: RecordBackendQuery|null, direction?: IDBCursorDirection): RecordBackendRequest<RecordBackendCursor|null>;
+}
+/** An index of an object store, like an `IDBIndex` */
+export interface RecordBackendIndex extends RecordBackendSource
+{
+    readonly unique: boolean;
+    readonly multiEntry: boolean;
+}
+/** An object store in the scope of a transaction, like an `IDBObjectStore` */
+export interface RecordBackendObjectStore extends RecordBackendSource
+{
+    readonly indexNames: RecordBackendNameList;
+    add(value: unknown, key?: IDBValidKey): RecordBackendRequest<IDBValidKey>;
+    put(value: unknown, key?: IDBValidKey): RecordBackendRequest<IDBValidKey>;
+    delete(query: RecordBackendQuery): RecordBackendRequest<undefined>;
+    clear(): RecordBackendRequest<undefined>;
+    index(name: string): RecordBackendIndex;
+    createIndex(name: string, keyPath: string|string[], options?: IDBIndexParameters): RecordBackendIndex;
+    deleteIndex(name: string): void;
+}
+/** A transaction over one or more object stores, like an `IDBTransaction` */
+export interface RecordBackendTransaction
+{
+    readonly mode: IDBTransactionMode;
+    readonly error: DOMException|null;
+    readonly objectStoreNames: RecordBackendNameList;
+    oncomplete: ((event: Event) => void)|null;
+    onabort: ((event: Event) => void)|null;
+    onerror: ((event: Event) => void)|null;
+    objectStore(name: string): RecordBackendObjectStore;
+    abort(): void;
+    commit(): void;
+    addEventListener(type: 'complete'|'abort'|'error', listener: (event: Event) => void): void;
+    removeEventListener(type: 'complete'|'abort'|'error', listener: (event: Event) => void): void;
+}
+/** A connection to a database, like an `IDBDatabase` */
+export interface RecordBackendDatabase
+{
+    readonly name: string;
+    readonly version: number;
+    readonly objectStoreNames: RecordBackendNameList;
+    transaction(storeNames: string|string[], mode?: IDBTransactionMode): RecordBackendTransaction;
+    createObjectStore(name: string, options?: IDBObjectStoreParameters): RecordBackendObjectStore;
+    deleteObjectStore(name: string): void;
+    close(): void;
+}
+/** The storage that a `RecordSetter` keeps its databases in.
+* The objects a backend provides follow the same interfaces, and semantics, as indexedDB's; `IndexedDBBackend` is the default,
+* and `MemoryBackend` keeps its databases in memory. */
+export interface RecordSetterBackend
+{
+    /** Whether the backend's databases are shared with other tabs; changes are only broadcast to other tabs when they are */
+    readonly isShared: boolean;
+    /** Open a connection to a database, creating or upgrading it if `version` is higher than its current version */
+    open(name: string, version?: number): RecordBackendOpenRequest;
+    /** Delete a database */
+    deleteDatabase(name: string): RecordBackendRequest<undefined>;
+    /** Compare two keys; returns `-1` if the first key is lower, `1` if it is higher, and `0` if they're equal */
+    cmp(first: unknown, second: unknown): number;
+    /** Create a key range that only includes `value` */
+    only(value: unknown): RecordBackendKeyRange;
+    /** Create a key range between `lower` and `upper` */
+    bound(lower: unknown, upper: unknown, lowerOpen?: boolean, upperOpen?: boolean): RecordBackendKeyRange;
+    /** Create a key range with no upper bound */
+    lowerBound(lower: unknown, open?: boolean): RecordBackendKeyRange;
+    /** Create a key range with no lower bound */
+    upperBound(upper: unknown, open?: boolean): RecordBackendKeyRange;
+}
+/** A function that reshapes stored data while the database is being upgraded to a new version.
+* Migrations run inside the upgrade's `versionchange` transaction, so any `Promise` they return must only await requests
+* made against that transaction; awaiting anything else will let the transaction commit before the migration finishes.
+* @example (transaction) => { transaction.objectStore('tasks').openCursor().onsuccess = [...] }
+*/
+export type RecordSetterMigration = (transaction: RecordBackendTransaction, database: RecordBackendDatabase) => void|Promise<void>;
+/** Options for a `RecordSetter` instance */
+export interface RecordSetterOptions<S extends RecordSetterSchema = RecordSetterSchema>
+{
+    name: string;
+    version: number;
+    schema: S;
+    keyValueTableName?: string;
+    /** When set, the values of the key/value store are encrypted with this AES-GCM key by `setValue` and `setValues`,
+    * and decrypted by `getValue`, `getValues` and `getAllValues`. */
+    keyValueEncryptionKey?: CryptoKey;
+    /** When `true`, every change made by this instance's stores, and by its key/value, data and key-only methods, is appended to the `_changes` table
+    * in the same transaction as the change, for a `SyncManager` to push. The table is added to the schema, so enabling this on an existing
+    * database needs a new `version`. */
+    changeLog?: boolean;
+    /** When set, the changes made by this instance's stores are recorded in its `history`, so that they can be undone and redone */
+    history?: RecordHistoryOptions;
+    /** When `true`, changes are sent to other tabs with the same database open, over a `BroadcastChannel`, so that their
+    * change listeners are notified too. Defaults to `true`; changes are never broadcast for backends that aren't shared with other tabs. */
+    broadcastChanges?: boolean;
+    /** The storage to keep the database in. Defaults to an `IndexedDBBackend`; use a `MemoryBackend` for data that doesn't need to be persisted,
+    * or to run outside of a browser. */
+    backend?: RecordSetterBackend;
+    /** Functions to run when upgrading the database, keyed by the version that introduced them.
+    * When the database is opened with a higher `version` than it was last opened with, every migration with a key greater than the
+    * previous version, and no greater than the new version, is run in ascending order.
+    * Migrations run after new stores and indexes have been created, but before stores and indexes that were removed from the schema are deleted,
+    * so data can be moved out of them. */
+    migrations?: { [version: number]: RecordSetterMigration };
+}
+/** The contents of a database, as returned by `RecordSetter.exportDatabase` */
+export interface RecordSetterExport
+{
+    /** The name of the exported database */
+    name: string;
+    /** The version of the exported database */
+    version: number;
+    /** The schema that the exported database was opened with */
+    schema: RecordSetterSchema;
+    /** The name of the exported database's key/value store */
+    keyValueTableName: string;
+    /** When the export was created, in milliseconds since the epoch */
+    exportedTimestamp: number;
+    /** The values of every store, keyed by the store's name */
+    stores: { [storeName: string]: unknown[] };
+}
+/** Options for `RecordSetter.importDatabase` */
+export interface RecordSetterImportOptions
+{
+    /** `replace` clears every store in the database, other than the change log and history, before importing, so the database only contains the imported data.  
+    * `merge` (default) keeps the existing data, and overwrites any values that have the same keys as imported values. */
+    mode?: 'replace'|'merge';
+}
+/** A value that can be stored by the key/value and data methods; plain objects and arrays are stored as they are, without being serialized */
+export type RecordSetterValue = string|number|boolean|Blob|object|null|undefined;
+/** Options for storing values with the key/value and data methods */
+export interface RecordSetterValueOptions
+{
+    /** The number of milliseconds the value is kept for. Once it has expired, the value is read as `null`, and it is removed
+    * the next time it is read, or by `removeExpiredValues` and `removeExpiredData`. */
+    ttlMs?: number;
+}
+/** The range of keys to match in a key-only store, for `RecordSetter.countKeys` */
+export interface RecordSetterKeyRangeOptions
+{
+    /** Only match keys that start with this string, like `proj/` */
+    prefix?: string;
+    /** Only match keys that sort at or after this key */
+    from?: string;
+    /** Only match keys that sort at or before this key */
+    to?: string;
+}
+/** Options for listing the keys of a key-only store with `RecordSetter.listKeys` */
+export interface RecordSetterKeyListOptions extends RecordSetterKeyRangeOptions
+{
+    /** Only list keys that come after this key, in the direction of the listing; pass the last key of a page to get the next page */
+    after?: string;
+    /** The maximum number of keys to list */
+    limit?: number;
+    /** When `true`, keys are listed in descending order */
+    reverse?: boolean;
+}
+/** A function that is called with the name and new value of a setting whenever it changes */
+export type RecordSettingsListener<D> = (key: keyof D & string, value: D[keyof D]) => void;
+/** The methods of a settings object returned by `RecordSetter.settings`; their names can't be used as the names of settings */
+export interface RecordSettingsMethods<D>
+{
+    /** Reset a setting, or every setting if `key` isn't set, to its default value, by removing it from the key/value store */
+    reset(key?: keyof D & string): Promise<void>;
+    /** Listen for changes to the settings, whether they're made through the settings object, the key/value methods, or another tab; returns a function that stops listening */
+    subscribe(listener: RecordSettingsListener<D>): () => void;
+    /** Wait for the changes made so far to be written to the key/value store; rejects if writing them failed */
+    flush(): Promise<void>;
+    /** Stop keeping the settings in sync with the key/value store, and remove every listener */
+    dispose(): void;
+}
+/** A settings object returned by `RecordSetter.settings`, whose properties are the settings, backed by the key/value store */
+export type RecordSettings<D> = D & RecordSettingsMethods<D>;
+/** An entry of a store that is managed by the key/value and data methods */
+interface RecordSetterDataEntry
+{
+    /** The key of the entry */
+    key: string|number;
+    /** The value of the entry */
+    value: unknown;
+    /** When the entry expires, in milliseconds since the epoch, if it was stored with a `ttlMs` */
+    expires?: number;
+}
+/** The kinds of changes that are reported to change listeners */
+export type RecordChangeOperation = 'add'|'update'|'remove'|'restore'|'clear'|'set';
+/** A change that was made to the data in a store */
+export interface RecordChangeEvent
+{
+    /** The name of the store that was changed */
+    storeName: string;
+    /** The kind of change that was made */
+    operation: RecordChangeOperation;
+    /** The ids (or keys) of the records that were changed; empty when a store is cleared */
+    ids: (string|number)[];
+    /** `true` if the change was made by another tab */
+    remote?: boolean;
+}
+/** A function that is called with each `RecordChangeEvent` */
+export type RecordChangeListener = (event: RecordChangeEvent) => void;
+/** A change to a single record or value, as it is logged, and synced by a `SyncManager` */
+export interface RecordSyncChange
+{
+    /** The name of the store that was changed */
+    storeName: string;
+    /** The id (or key) of the record that was changed; `null` when the store was cleared */
+    id: string|number|null;
+    /** The kind of change that was made */
+    operation: RecordChangeOperation;
+    /** The record (or key/value entry) as it was stored by the change, or `null` if it was removed for good, or the store was cleared.  
+    * Soft-deleted records are stored with their `deletedTimestamp`, so their payload is a tombstone that syncs the removal. */
+    payload: unknown;
+    /** When the change was made, in milliseconds since the epoch */
+    timestamp: number;
+}
+/** A change that has been made locally, and is waiting in the change log to be pushed */
+export interface RecordChangeLogEntry extends RecordSyncChange
+{
+    /** The key of the entry in the change log; entries are pushed in order of their sequence */
+    sequence: string;
+}
+/** The changes that a `RecordSyncTransport` has pulled from the server */
+export interface RecordSyncPull
+{
+    /** The changes that were made on the server since the checkpoint, in the order they were made */
+    changes: RecordSyncChange[];
+    /** The checkpoint to pull the next changes from */
+    checkpoint: string|null;
+    /** `true` if there are more changes to pull from the new checkpoint */
+    hasMore?: boolean;
+}
+/** Sends local changes to a server, and gets the changes that were made there, for a `SyncManager` */
+export interface RecordSyncTransport
+{
+    /** Send changes that were made locally to the server; once this resolves, the changes are removed from the change log */
+    push(changes: RecordChangeLogEntry[]): Promise<void>;
+    /** Get the changes that were made on the server after a checkpoint
+    * @param checkpoint the checkpoint that was returned by the last pull, or `null` to pull every change */
+    pull(checkpoint: string|null): Promise<RecordSyncPull>;
+}
+/** Decides how a change that was pulled from the server is applied to a record that has changes waiting to be pushed.  
+* Returning `remote` applies the pulled change and discards the local changes; returning `local` keeps the local changes, to be pushed.
+* Any other change is applied in place of both, and pushed. */
+export type RecordSyncResolver = (local: RecordSyncChange, remote: RecordSyncChange) => RecordSyncChange;
+/** Options for a `SyncManager` */
+export interface SyncManagerOptions
+{
+    /** Resolves conflicts between pulled changes and local changes. Defaults to last-write-wins, by the changes' `timestamp` */
+    resolve?: RecordSyncResolver;
+    /** The number of changes to push at once. Defaults to `100` */
+    batchSize?: number;
+}
+/** The outcome of a `SyncManager.sync` */
+export interface RecordSyncResult
+{
+    /** The number of local changes that were pushed */
+    pushed: number;
+    /** The number of changes that were pulled */
+    pulled: number;
+    /** The number of pulled changes that conflicted with local changes */
+    conflicts: number;
+}
+/** Options for the undo and redo history of a `RecordSetter` */
+export interface RecordHistoryOptions
+{
+    /** The number of units that can be undone; once it is reached, the oldest units are forgotten. Defaults to `100` */
+    depth?: number;
+    /** When `true`, the history is kept in the `_history` table, so that it can still be undone after a reload.
+    * The table is added to the schema, so enabling this on an existing database needs a new `version`. */
+    persist?: boolean;
+}
+/** The state of a single record before and after a change that the history recorded */
+export interface RecordHistoryImage
+{
+    /** The name of the store the record is in */
+    storeName: string;
+    /** The id of the record */
+    id: string;
+    /** The operation that changed the record */
+    operation: RecordChangeOperation;
+    /** The record as it was stored before the change, or `null` if it didn't exist */
+    before: RecordBase|null;
+    /** The record as it was stored by the change, or `null` if it was removed */
+    after: RecordBase|null;
+}
+/** A group of changes that are undone and redone together */
+export interface RecordHistoryUnit
+{
+    /** The name of the unit; the name passed to `batch`, the operation that made the changes, or `transaction` for the changes of a transaction with several operations */
+    name: string;
+    /** When the changes were made, in milliseconds since the epoch */
+    timestamp: number;
+    /** The records that were changed, in the order they were changed */
+    images: RecordHistoryImage[];
+}
+/** How `RecordStore` writes records */
+interface RecordWriteOptions extends RecordApplyOptions
+{
+    /** `true` if the records are `RecordPatch`es, with their ids, to apply to the stored records */
+    isPatch?: boolean;
+    /** `true` if the records are being imported by `bulkImport`; they aren't read back, or recorded in the history */
+    isImport?: boolean;
+    /** Set to soft-delete (`true`) or restore (`false`) the stored records with the ids of the records; ids that aren't stored are skipped */
+    setDeleted?: boolean;
+    /** `true` if the records are changes made somewhere else, which replace the stored records whatever their revisions;
+    * they aren't read back, or recorded in the history */
+    isReplace?: boolean;
+}
+/** How a `RecordStore` reads the records that match a predicate */
+interface RecordQueryPlan
+{
+    /** The object store or index to open a cursor on */
+    source: RecordBackendObjectStore|RecordBackendIndex;
+    /** The key range to open the cursor with */
+    range: RecordBackendKeyRange|null;
+    /** Matches the parts of the predicate that the key range doesn't */
+    filter: (record: RecordBase) => boolean;
+    /** Whether the cursor will read records in the order of the plan's order key */
+    isOrdered: boolean;
+    /** Whether the filter has to be applied; when `false`, every record in the range matches */
+    isFiltered: boolean;
+}
+/** The parsed definition of a single index, as declared in a `RecordSetterSchema` */
+interface RecordSetterIndexDefinition
+{
+    name: string;
+    keyPath: string|string[];
+    unique: boolean;
+    multiEntry: boolean;
+}
+
+/** An asynchronous indexedDB wrapper that includes record management, query functions, and batch operations  
+* @template S the schema the database is opened with; schemas created by `RecordSetter.defineSchema` type the stores that `getStore` and `addStore` return
+*/
+export class RecordSetter<S extends RecordSetterSchema = RecordSetterSchema>
+{
+    /** The names of the tables that the change log and history are kept in, which belong to this database rather than to its data */
+    static readonly #internalTableNames = ["_changes", "_history"];
+
+    #isOpen: boolean = false;
+    #isInitialized: boolean = false;
+
+    #database?: RecordBackendDatabase;
+    #backend: RecordSetterBackend = new IndexedDBBackend();
+
+    #keyValueTableName: string = "keyValue";
+    #keyValueCipher?: RecordCipher;
+    #changeLogTableName?: string;
+    #historyTableName?: string;
+    #history: RecordHistory<S> = new RecordHistory(this);
+    #schema?: RecordSetterSchema;
+
+    #changeListeners: Set<RecordChangeListener> = new Set();
+    #channel?: BroadcastChannel;
+
+    /** A map of the `RecordStore`s managed by this `RecordSetter` instance */
+    stores: Map<string, RecordStore<RecordBase>> = new Map();
+
+    /** The name of the table that changes are logged to, if the `changeLog` option is enabled */
+    get changeLogTableName() { return this.#changeLogTableName; }
+    /** The name of the table that the history is kept in, if the `history` option is set to `persist` */
+    get historyTableName() { return this.#historyTableName; }
+    /** The undo and redo history of the changes made by this instance's stores; changes are only recorded when the `history` option is set */
+    get history() { return this.#history; }
+
+    //#region Database - Create, open, update, delete database
+
+    /**
+     * Create and then await and validate opening a `RecordSetter` instance
+     * @param options target `RecordSetterOptions` values
+     * @returns a validated `RecordSetter` instance
+     */
+    static async activate<S extends RecordSetterSchema = RecordSetterSchema>(options: RecordSetterOptions<S>)
+    {
+        const instance = new RecordSetter<S>();
+        const opened = await instance.open(options);
+        if(opened == false) { throw new RecordSetterError("An error occurred opening the database.", { operation: 'open' }); }
+        return instance;
+    }
+    /**
+     * Open the `RecordSetter` instance's database and initialize its functionality
+     * @param options target `RecordSetterOptions` values
+     * @returns a `boolean` to indicate success
+     */
+    async open(options: RecordSetterOptions<S>):Promise<boolean>
+    {
+        await this.#openDatabase(options);
+        await this.#history.load();
+
+        return this.#isOpen && this.#isInitialized;
+    }
+    /**
+     * Opens an instance of an `IDBDatabase` database, and registers for upgrade events.  
+     * Listens for `onupgradeneeded` to create an `IDBDatabase` instance if it does not exist, and upgrade the instance if it does.
+     * @param options target `RecordSetterOptions` values
+     * @returns an awaitable `Promise`
+     */
+    async #openDatabase(options: RecordSetterOptions)
+    {
+        this.#keyValueTableName = options.keyValueTableName ?? this.#keyValueTableName;
+        this.#keyValueCipher = (options.keyValueEncryptionKey == null) ? undefined : new RecordCipher(options.keyValueEncryptionKey);
+        this.#changeLogTableName = (options.changeLog == true) ? "_changes" : undefined;
+        this.#historyTableName = (options.history?.persist == true) ? "_history" : undefined;
+        this.#history = new RecordHistory(this, options.history);
+        this.#schema = options.schema;
+        this.#backend = options.backend ?? this.#backend;
+        return new Promise<void>((resolve, reject) =>
+        {                
+            let upgradeError: unknown;
+            const request = this.#backend.open(options.name, options.version);
+            request.onsuccess = (event: Event) =>
+            {
+                const dbEvent = event.target as unknown as { result: RecordBackendDatabase|undefined };
+                this.#database = dbEvent.result;
+                const missingTable = [
+                    { tableName: this.#changeLogTableName, description: "change log" },
+                    { tableName: this.#historyTableName, description: "history" },
+                ].find(table => table.tableName != null && !this.#database?.objectStoreNames.contains(table.tableName));
+                if(missingTable != null)
+                {
+                    this.#database?.close();
+                    reject(new RecordSetterError(`The "${missingTable.tableName}" table of the ${missingTable.description} doesn't exist yet; open the database with a new version to create it.`, { storeName: missingTable.tableName, operation: 'open' }));
+                    return;
+                }
+
+                if(options.broadcastChanges != false && this.#backend.isShared && typeof BroadcastChannel != 'undefined')
+                {
+                    this.#channel = new BroadcastChannel(`record-setter:${options.name}`);
+                    this.#channel.onmessage = (message: MessageEvent<RecordChangeEvent>) => { this.#receiveChange(message.data); };
+                }
+
+                this.#isOpen = true;
+                this.#isInitialized = true;
+                resolve();
+            };
+
+            request.onupgradeneeded = (event: IDBVersionChangeEvent) =>
+            {
+                const dbEvent = event.target as unknown as { result: RecordBackendDatabase|undefined, transaction: RecordBackendTransaction };
+                this.#database = dbEvent.result;
+                this.#upgradeDatabase(options, dbEvent.transaction, event.oldVersion, event.newVersion ?? options.version)
+                    .catch((error: unknown) =>
+                    {
+                        // aborting the versionchange transaction fails the open request,
+                        // which rolls back every change the upgrade has made so far
+                        upgradeError = error;
+                        try { dbEvent.transaction.abort(); }
+                        catch(_) { /* transaction has already finished; the open request will report the outcome */ }
+                    });
+            };
+
+            request.onerror = (event: Event) => { reject(upgradeError ?? RecordSetterError.from(event, { operation: 'open' })); }
+
+        });
+    }
+    /**
+     * Bring the database's object stores and indexes in line with the schema, running any migrations between the two versions.  
+     * Stores and indexes that are missing are created first, indexes whose definitions have changed are rebuilt, migrations are run
+     * in version order, and then any stores or indexes that are no longer declared in the schema are deleted.
+     * @param options target `RecordSetterOptions` values
+     * @param transaction the `versionchange` transaction of the upgrade
+     * @param oldVersion the version the database was at before this upgrade; `0` when the database is being created
+     * @param newVersion the version the database is being upgraded to
+     * @returns an awaitable `Promise`
+     */
+    async #upgradeDatabase(options: RecordSetterOptions, transaction: RecordBackendTransaction, oldVersion: number, newVersion: number)
+    {
+        const database = this.#database!;
+
+        const declaredStores = new Map<string, RecordSetterIndexDefinition[]>();
+        for(const [tableName, columnsKey] of Object.entries(options.schema))
+        {
+            declaredStores.set(tableName, this.#parseIndexDefinitions(columnsKey));
+        }
+        if(!declaredStores.has(this.#keyValueTableName))
+        {
+            declaredStores.set(this.#keyValueTableName, this.#parseIndexDefinitions("key"));
+        }
+        if(this.#changeLogTableName != null && !declaredStores.has(this.#changeLogTableName))
+        {
+            declaredStores.set(this.#changeLogTableName, this.#parseIndexDefinitions("sequence"));
+        }
+        if(this.#historyTableName != null && !declaredStores.has(this.#historyTableName))
+        {
+            declaredStores.set(this.#historyTableName, this.#parseIndexDefinitions("key"));
+        }
+
+        const removedIndexes: { objectStore: RecordBackendObjectStore, name: string }[] = [];
+        for(const [tableName, definitions] of declaredStores)
+        {
+            const [primaryKey, ...indexes] = definitions;
+
+            let objectStore: RecordBackendObjectStore;
+            if(!database.objectStoreNames.contains(tableName))
+            {
+                objectStore = database.createObjectStore(tableName, { keyPath: primaryKey.keyPath });
+            }
+            else
+            {
+                objectStore = transaction.objectStore(tableName);
+                if(!this.#isSameKeyPath(objectStore.keyPath, primaryKey.keyPath))
+                {
+                    throw new RecordSetterError(`The primary key of the "${tableName}" store cannot be changed by an upgrade. Declare a new store and move its records in a migration, instead.`, { storeName: tableName, operation: 'upgrade' });
+                }
+            }
+
+            const indexNames = new Set(indexes.map(item => item.name));
+            for(const existingName of Array.from(objectStore.indexNames))
+            {
+                if(!indexNames.has(existingName))
+                {
+                    removedIndexes.push({ objectStore, name: existingName });
+                }
+            }
+
+            for(const definition of indexes)
+            {
+                if(objectStore.indexNames.contains(definition.name))
+                {
+                    const index = objectStore.index(definition.name);
+                    if(this.#isSameKeyPath(index.keyPath, definition.keyPath) && index.unique == definition.unique && index.multiEntry == definition.multiEntry) { continue; }
+                    objectStore.deleteIndex(definition.name);
+                }
+                objectStore.createIndex(definition.name, definition.keyPath, { unique: definition.unique, multiEntry: definition.multiEntry });
+            }
+        }
+
+        if(options.migrations != null)
+        {
+            const versions = Object.keys(options.migrations)
+                .map(item => Number(item))
+                .filter(item => item > oldVersion && item <= newVersion)
+                .sort((a, b) => a - b);
+            for(let i = 0; i < versions.length; i++)
+            {
+                await options.migrations[versions[i]](transaction, database);
+            }
+        }
+
+        for(let i = 0; i < removedIndexes.length; i++)
+        {
+            removedIndexes[i].objectStore.deleteIndex(removedIndexes[i].name);
+        }
+        for(const tableName of Array.from(database.objectStoreNames))
+        {
+            // the change log and history keep their tables when their options are turned off, so that turning them back on doesn't lose them;
+            // a migration can delete them with `deleteObjectStore`
+            if(!declaredStores.has(tableName) && !RecordSetter.#internalTableNames.includes(tableName))
+            {
+                database.deleteObjectStore(tableName);
+            }
+        }
+    }
+    /**
+     * Parse the comma-separated index declarations of a schema entry.  
+     * The first declaration is the store's primary key; compound index declarations like `[type+taskId]` also add an index for each of their properties,
+     * but a compound primary key doesn't.
+     * @param columnsKey the schema value for a single store
+     * @returns the index definitions, with the primary key first
+     */
+    #parseIndexDefinitions(columnsKey: string)
+    {
+        const indexesArray = columnsKey.split(',').map(item => item.trim());
+        const definitions = new Array<RecordSetterIndexDefinition>();
+        const addDefinition = (definition: RecordSetterIndexDefinition) =>
+        {
+            // a property may only be indexed once, even when it is also part of a compound index
+            if(definitions.find(item => item.name == definition.name) != null) { return; }
+            definitions.push(definition);
+        };
+        for(let i = 0; i < indexesArray.length; i++)
+        {
+            const key = indexesArray[i];
+            if(key.startsWith('[') && key.endsWith(']'))
+            {
+                const name = key.substring(1, key.length -1);
+                const compositeArray = name.split('+');
+                addDefinition({ name, keyPath: compositeArray.map(item => item.startsWith('!') ? item.substring(1) : item), unique: false, multiEntry: false });
+                if(i == 0) { continue; }
+                for(let j = 0; j < compositeArray.length; j++)
+                {
+                    const isUnique = compositeArray[j].startsWith('!');
+                    const pathName = isUnique ? compositeArray[j].substring(1) : compositeArray[j];
+                    addDefinition({ name: pathName, keyPath: pathName, unique: isUnique, multiEntry: true });
+                }
+                continue;
+            }
+            const isUnique = key.startsWith('!');
+            const name = isUnique ? key.substring(1) : key;
+            addDefinition({ name, keyPath: name, unique: isUnique, multiEntry: true });
+        }
+        return definitions;
+    }
+    /**
+     * Compare two key paths for equality
+     * @param a the first key path
+     * @param b the second key path
+     * @returns `true` if the key paths describe the same properties, in the same order
+     */
+    #isSameKeyPath(a: string|string[]|null, b: string|string[]|null)
+    {
+        if(Array.isArray(a) && Array.isArray(b))
+        {
+            return a.length == b.length && a.every((item, index) => item == b[index]);
+        }
+        return a == b;
+    }
+    /**
+     * Close the database connection and desconstruct the instance
+     * @returns a `boolean` to indicate success
+     */
+    async close(): Promise<boolean>
+    {
+        if(this.#database == null) 
+        { 
+            this.#isOpen = false;
+            return !this.#isOpen;
+        }
+
+        this.#database.close();
+        this.#channel?.close();
+        this.#channel = undefined;
+
+        this.#isOpen = false;
+        return !this.#isOpen;
+    }
+    /**
+     * Closes the current database instance, if it is open, and then deletes the database.
+     * @returns a `boolean` to indicate success
+     */
+    async delete(): Promise<boolean>
+    {        
+        if(this.#isOpen)
+        {
+            await this.close();
+        }
+
+        return this.#deleteDatabase();
+    }
+    /**
+     * Deletes the database.
+     * @returns a `boolean` to indicate success
+     */
+    #deleteDatabase()
+    {
+        return new Promise<boolean>((resolve, reject) =>
+        {
+            if(this.#database == null || this.#isInitialized != true) 
+            { 
+                reject(new DatabaseNotOpenError({ operation: 'deleteDatabase' }));
+                return;
+            }
+            const deleteRequest = this.#backend.deleteDatabase(this.#database!.name);
+            deleteRequest.onsuccess = () =>
+            {
+                this.#database = undefined;
+                this.#isInitialized = false;
+                resolve(true);
+            };
+            deleteRequest.onerror = (event: Event) =>
+            {
+                reject(RecordSetterError.from(event, { operation: 'deleteDatabase' }));
+            };
+        });
+    }
+    
+    /**
+     * Open new transaction in the managed database
+     * @param tables the tables to include in this transaction scope
+     * @param transactionMode the `IDBTransactionMode` the transaction will operate in
+     * @returns a new transaction on the managed database in the target mode
+     */
+    openTransaction(tables: string[], transactionMode: IDBTransactionMode = 'readwrite')
+    {
+        // changes are logged in the transactions that make them
+        if(this.#changeLogTableName != null && transactionMode != 'readonly' && !tables.includes(this.#changeLogTableName))
+        {
+            tables = [...tables, this.#changeLogTableName];
+        }
+        const details = { operation: 'transaction', key: tables };
+        if(this.#database == null || !this.#isOpen) { throw new DatabaseNotOpenError(details); }
+        const missingName = tables.find(name => !this.#database!.objectStoreNames.contains(name));
+        if(missingName != null) { throw new StoreNotFoundError(missingName, details); }
+        try
+        {
+            return this.#database.transaction(tables, transactionMode);
+        }
+        catch(error)
+        {
+            throw RecordSetterError.from(error, details);
+        }
+    }
+    /**
+     * Run a function in a single transaction that is shared by every store it uses.  
+     * If the function throws, or any of its requests fail, the transaction is aborted and none of its changes are saved.
+     * Otherwise, all of its changes are committed together once the function has finished.  
+     * The transaction closes as soon as nothing but indexedDB requests are pending, so the function must not await anything
+     * other than the stores' operations (like a `fetch` or a timer).
+     * @example await data.transaction(['tasks', 'attachments'], async (tx) => 
+     * {
+     *     await tx.store<TaskRecord>('tasks').updateRecord(task);
+     *     await tx.store<AttachmentRecord>('attachments').updateRecords(attachments);
+     * });
+     * @param tables the tables to include in this transaction scope
+     * @param callback the function to run; it receives a `RecordTransaction` to get stores from
+     * @param transactionMode the `IDBTransactionMode` the transaction will operate in
+     * @returns the value returned by the callback, once the transaction has committed
+     */
+    async transaction<R>(tables: string[], callback: (transaction: RecordTransaction) => R|Promise<R>, transactionMode: IDBTransactionMode = 'readwrite'): Promise<R>
+    {
+        const transaction = this.openTransaction(tables, transactionMode);
+        const completed = new Promise<void>((resolve, reject) =>
+        {
+            transaction.addEventListener('complete', () => { resolve(); });
+            transaction.addEventListener('abort', (event: Event) => { reject(RecordSetterError.from(event, { operation: 'transaction', key: tables })); });
+        });
+        // if the callback fails, its error is reported instead of the abort
+        completed.catch(() => { /* handled below */ });
+
+        const recordTransaction = new RecordTransaction(transaction, (name: string) => this.stores.get(name) ?? this.#createStore(name, tables));
+        let result: R;
+        try
+        {
+            result = await callback(recordTransaction);
+        }
+        catch(error)
+        {
+            try { transaction.abort(); }
+            catch(_) { /* the transaction has already finished */ }
+            throw error;
+        }
+
+        // commit without waiting for the transaction to notice that no more requests are coming
+        try { transaction.commit?.(); }
+        catch(_) { /* the transaction has already committed */ }
+        await completed;
+        return result;
+    }
+
+    //#endregion
+
+    //#region Stores - Manage Records
+
+    /**
+     * Add a store to be managed by this `RecordSetter` instance
+     * @param storeName the name of the store to add
+     * @param tables the names of all tables that this store will share transactions with.  
+     * Transactions are shared in `Promise` scopes, so most `async`/`await` calls that will
+     * unite record data from different tables require shared scopes.
+     * @param options `RecordStoreOptions` values for the new `RecordStore` instance.  
+     * If `softDeleteRetention` is set, expired soft-deleted records are purged from the store in the background, and the store's `retentionPurge` settles once they have been.
+     * @returns a new `RecordStore` instance
+     */
+    addStore<N extends Extract<keyof S, string>>(storeName: N, tables?: string[], options?: RecordStoreOptions<RecordSetterSchemaRecord<S, N>>): RecordSetterSchemaStore<S, N>;
+    addStore<T extends RecordBase = RecordBase, R extends RecordStore<T> = RecordStore<T>>(storeName: string, tables?: string[], options?: RecordStoreOptions<T>): R;
+    addStore(storeName: string, tables?: string[], options?: RecordStoreOptions): RecordStore<RecordBase, string>
+    {
+        if(this.stores.get(storeName) != null) { throw new RecordSetterError("Cannot add store with same name as existing store.", { storeName, operation: 'addStore' }); }
+
+        const store = this.#createStore(storeName, tables ?? [storeName], options);
+        this.stores.set(storeName, store);
+        if(options?.softDeleteRetention != null)
+        {
+            // the store can be used right away; the purge runs in its own transaction
+            store.retentionPurge = store.purgeDeleted({ olderThan: Date.now() - options.softDeleteRetention });
+            store.retentionPurge.catch(() => { /* reported through retentionPurge */ });
+        }
+        return store;
+    }
+
+    /**
+     * Get a `RecordStore` that is managed by this instance.
+     * @template T extends `RecordBase`
+     * @param name the name of the store to get
+     * @returns a `RecordStore` instance that manages `Record`s of type `T`, or of the type the schema declares for the store.
+     */
+    getStore<N extends Extract<keyof S, string>>(name: N): RecordSetterSchemaStore<S, N>;
+    getStore<T extends RecordBase = RecordBase, R extends RecordStore<T> = RecordStore<T>>(name: string): R;
+    getStore(name: string): RecordStore<RecordBase, string>
+    {
+        const store = this.stores.get(name);
+        if(store == null)
+        {
+            throw new StoreNotFoundError(name, { operation: 'getStore' });
+        }
+        return store;
+    }
+    /**
+     * Get a default `RecordStore` instance that manages key/value pairs in the database
+     * @returns the KeyValue `RecordStore` instance
+     */
+    async getKeyValueStore()
+    {
+        let store = this.stores.get(this.#keyValueTableName);
+        if(store == null)
+        {
+            store = await this.addStore(this.#keyValueTableName);
+        }
+        if(store == null) { throw new StoreNotFoundError(this.#keyValueTableName, { operation: 'getKeyValueStore' }); }
+
+        return store;
+    }
+
+    //#endregion
+    
+    
+
+    //#region Data - Key/Value management
+
+    /**
+     * Get a value from the Key/Value `RecordStore`
+     * @param key the key to match
+     * @returns the value associated with the target key, or `null` if it doesn't exist or has expired
+     */
+    async getValue<T extends RecordSetterValue = undefined>(key: string): Promise<T|null>
+    {
+        return this.#decryptValue(await this.getData<T>(this.#keyValueTableName, key), key);
+    }
+    /**
+     * Get values from the Key/Value `RecordStore`
+     * @param keys the keys to match
+     * @returns the values associated with the target keys, or `null` for keys that don't exist or have expired
+     */
+    async getValues<T extends RecordSetterValue = undefined>(keys: string[]): Promise<(T|null)[]>
+    {
+        const values = await this.getDataValues<T>(this.#keyValueTableName, keys);
+        return Promise.all(values.map((value, index) => this.#decryptValue(value, keys[index])));
+    }
+    /**
+     * Get all values from the Key/Value `RecordStore`
+     * @returns an array of the values that haven't expired
+     */
+    async getAllValues<T extends RecordSetterValue = undefined>(): Promise<(T|null)[]>
+    {
+        const values = await this.getAllData<T>(this.#keyValueTableName);
+        return Promise.all(values.map(value => this.#decryptValue(value)));
+    }
+    /**
+     * Set a value in the Key/Value `RecordStore`
+     * @example await data.setValue('session', { token, userId }, { ttlMs: 60 * 60 * 1000 });
+     * @param key the key to assign a value to
+     * @param value the value to assign to the target key; `undefined` removes the key
+     * @param options `RecordSetterValueOptions` values, like the `ttlMs` the value expires after
+     */
+    async setValue<T extends RecordSetterValue>(key: string, value: T, options?: RecordSetterValueOptions)
+    {
+        await this.setData(this.#keyValueTableName, key, await this.#encryptValue(value), options);
+    }
+    /**
+     * Set values in the Key/Value `RecordStore`
+     * @param items an array of key/value pairs defining the data to set, each with an optional `ttlMs` the value expires after
+     */
+    async setValues<T extends RecordSetterValue>(items: {key: string, value: T, ttlMs?: number }[])
+    {
+        const encrypted = await Promise.all(items.map(async item => ({ key: item.key, value: await this.#encryptValue(item.value), ttlMs: item.ttlMs })));
+        await this.setDataValues(this.#keyValueTableName, encrypted);
+    }
+    /**
+     * Create an object whose properties are settings that are kept in the Key/Value `RecordStore`.  
+     * Reading a property returns the setting's stored value, or its default value if it isn't stored. Setting a property writes it to the store,
+     * along with the other settings changed in the same tick, and setting it to `undefined`, or deleting it, resets it to its default value.
+     * Values are only written when a property is set, so objects and arrays should be replaced rather than changed in place.
+     * @example const prefs = await data.settings({ theme: 'light', fontSize: 14, recentFiles: [] as string[] });
+     * prefs.theme = 'dark';
+     * @param defaults the default values of the settings, keyed by the names they're stored with
+     * @returns the settings object, once the stored settings have been read
+     */
+    async settings<D extends { [K in keyof D]: RecordSetterValue }>(defaults: D): Promise<RecordSettings<D>>
+    {
+        const keys = Object.keys(defaults);
+        const methodName = keys.find(key => RecordSettingsState.methodNames.includes(key));
+        if(methodName != null) { throw new RecordSetterError(`"${methodName}" can't be the name of a setting, since it's the name of a method of the settings object.`, { storeName: this.#keyValueTableName, operation: 'settings', key: methodName }); }
+
+        const values = await this.getValues(keys);
+        return new RecordSettingsState(this, this.#keyValueTableName, defaults, values).createProxy();
+    }
+    /**
+     * Remove the values that have expired from the Key/Value `RecordStore`.  
+     * Expired values are also removed when they are read, so this is only needed to free the space of values that aren't read again.
+     * @returns the keys of the removed values
+     */
+    async removeExpiredValues(): Promise<(string|number)[]>
+    {
+        return this.removeExpiredData(this.#keyValueTableName);
+    }
+    /**
+     * Encrypt a value for the Key/Value `RecordStore`, if `keyValueEncryptionKey` is set
+     * @param value the value to encrypt; `null` and `undefined` are left as they are
+     * @returns the `RecordEncryptedValue` to store in place of the value, or the value itself
+     */
+    async #encryptValue<T extends RecordSetterValue>(value: T): Promise<T>
+    {
+        if(this.#keyValueCipher == null || value == null) { return value; }
+        return await this.#keyValueCipher.encrypt(value) as unknown as T;
+    }
+    /**
+     * Decrypt a value from the Key/Value `RecordStore`, if it was encrypted
+     * @param value the stored value
+     * @param key the key of the value, for reporting errors
+     * @returns the decrypted value
+     */
+    async #decryptValue<T>(value: T, key?: string): Promise<T>
+    {
+        if(!RecordCipher.isEncrypted(value)) { return value; }
+        if(this.#keyValueCipher == null) { throw new RecordSetterError("Encrypted values can't be read without a keyValueEncryptionKey.", { storeName: this.#keyValueTableName, operation: 'decrypt', key }); }
+        try
+        {
+            return await this.#keyValueCipher.decrypt(value) as T;
+        }
+        catch(error)
+        {
+            throw RecordSetterError.from(error, { storeName: this.#keyValueTableName, operation: 'decrypt', key });
+        }
+    }
+
+    // data sets direct values, based on keys
+    // instead of storing a managed object 
+    // type (records). This allows for simple
+    // key-value storage alongside record storage;
+    // getting and setting data is limited to
+    // directly handling data in a single table;
+
+    /**
+     * Get all data stored in the target `IDBObjectStore`
+     * @param storeName the name of the `IDBObjectStore` to collect data from
+     * @returns an array of all values stored in the target `IDBObjectStore` that haven't expired
+     */
+    async getAllData<T extends RecordSetterValue = undefined>(storeName: string): Promise<(T|null)[]>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'getAll' }); }
+        const transaction = this.openTransaction([storeName], 'readonly');
+        const entries = await new Promise<RecordSetterDataEntry[]>((resolve, reject) =>
+        {
+            const objectStore = transaction.objectStore(storeName);
+            const request = objectStore.getAll();
+            request.onsuccess = (event: Event) =>
+            {
+                const records = (event.target as unknown as { result: RecordSetterDataEntry[] }).result;
+                resolve(records ?? []);
+            }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'getAll' })); }
+        });
+        // values are never stored as `null`, so the only `null` values are the expired entries, which are left out
+        return this.#getUnexpiredValues<T>(storeName, entries).filter(value => value != null);
+    }
+    /**
+     * Get the value of an entry in the target `IDBObjectStore`, by key
+     * @param storeName the name of the `IDBObjectStore` to get the value from
+     * @param key the key to match 
+     * @returns the value assigned to the matching key, or null if it doesn't exist or has expired
+     */
+    async getData<T extends RecordSetterValue = undefined>(storeName: string, key: string): Promise<T|null>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'get' }); }
+        const transaction = this.openTransaction([storeName], 'readonly');
+        const entry = await new Promise<RecordSetterDataEntry|undefined>((resolve, reject) =>
+        {
+            const objectStore = transaction.objectStore(storeName);
+            const request = objectStore.get(key);
+            request.onsuccess = (event: Event) =>
+            {
+                const record = (event.target as unknown as { result: RecordSetterDataEntry|undefined }).result;
+                resolve(record);
+            }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'get', key })); }
+        });
+        return this.#getUnexpiredValues<T>(storeName, [entry])[0];
+    }
+    /**
+     * Get the values of the entries in the target `IDBObjectStore`, by keys
+     * @param storeName the name of the `IDBObjectStore` to get the values from
+     * @param keys the keys to match 
+     * @returns an array of the values assigned to the matching keys, or null for keys that don't exist or have expired
+     */
+    async getDataValues<T extends RecordSetterValue = undefined>(storeName: string, keys: string[]):  Promise<(T|null)[]>
+    {
+        const transaction = this.openTransaction([storeName], 'readonly');
+        const promises: Promise<RecordSetterDataEntry|undefined>[] = [];
+        for(let i = 0; i < keys.length; i++)
+        {
+            const id = keys[i];
+            promises.push(new Promise<RecordSetterDataEntry|undefined>((resolve, reject) =>
+            {
+                const objectStore = transaction.objectStore(storeName);
+                const request = objectStore.get(id);
+                request.onsuccess = (event: Event) =>
+                {
+                    const record = (event.target as unknown as { result: RecordSetterDataEntry|undefined }).result;
+                    resolve(record);
+                }
+                request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'get', key: id })); }
+            }));
+        }
+
+        const records = await Promise.all(promises);
+        return this.#getUnexpiredValues<T>(storeName, records);
+    }
+    /**
+     * Set the value of an entry in the target `IDBObjectStore`, by key
+     * @param storeName the name of the `IDBObjectStore` to set the values in
+     * @param key the key to match 
+     * @param value the value to assign to the matching key; `undefined` removes the key
+     * @param options `RecordSetterValueOptions` values, like the `ttlMs` the value expires after
+     */
+    async setData<T extends RecordSetterValue = undefined>(storeName: string, key: string|number, value: RecordSetterValue, options?: RecordSetterValueOptions)
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'put' }); }
+        const transaction = this.openTransaction([storeName]);
+        this.#notifyOnComplete(transaction, { storeName, operation: (value == undefined) ? 'remove' : 'set', ids: [key] });
+        
+        await new Promise((resolve, reject) =>
+        {
+            const objectStore = transaction.objectStore(storeName);
+            const request = (value == undefined) ? objectStore.delete(key) : objectStore.put(this.#createEntry(key, value, options?.ttlMs));
+            request.onsuccess = (event: Event) =>
+            {
+                const value = (event.target as unknown as { result: T }).result;
+                resolve(value);
+            }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: (value == undefined) ? 'delete' : 'put', key })); }
+        });
+        await this.#logChanges(transaction, storeName, [{ id: key, operation: (value == undefined) ? 'remove' : 'set', payload: (value == undefined) ? null : this.#createEntry(key, value, options?.ttlMs) }]);
+    }
+    /**
+     * Set the values of an entries in the target `IDBObjectStore`, by keys
+     * @param storeName the name of the `IDBObjectStore` to set the values in
+     * @param values an array of key/value pairs defining the data to set, each with an optional `ttlMs` the value expires after
+     */
+    async setDataValues(storeName: string, values:{key: string|number, value: RecordSetterValue, ttlMs?: number}[])
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'put' }); }
+        const transaction = this.openTransaction([storeName]);
+        const objectStore = transaction.objectStore(storeName);
+        const entries = values.map(item => this.#createEntry(item.key, item.value, item.ttlMs));
+        const promises: Promise<unknown>[] = [];
+        for(let i = 0; i < values.length; i++)
+        {
+            const value = values[i];
+            const entry = entries[i];
+            promises.push(new Promise((innerResolve, innerReject) =>
+            {
+                const request = (value.value == undefined) ? objectStore.delete(value.key) : objectStore.put(entry);
+                request.onsuccess = (event: Event) =>
+                {
+                    const value = (event.target as unknown as { result: unknown }).result;
+                    innerResolve(value);
+                }
+                request.onerror = (event: Event) => { innerReject(RecordSetterError.from(event, { storeName, operation: (value.value == undefined) ? 'delete' : 'put', key: value.key })); }
+            }));
+        }
+
+        await Promise.all(promises);
+        await this.#logChanges(transaction, storeName, values.map((item, index) => ({ id: item.key, operation: (item.value == undefined) ? 'remove' : 'set', payload: (item.value == undefined) ? null : entries[index] })));
+
+        const setKeys = values.filter(item => item.value != undefined).map(item => item.key);
+        const removedKeys = values.filter(item => item.value == undefined).map(item => item.key);
+        if(setKeys.length > 0) { this.#notifyOnComplete(transaction, { storeName, operation: 'set', ids: setKeys }); }
+        if(removedKeys.length > 0) { this.#notifyOnComplete(transaction, { storeName, operation: 'remove', ids: removedKeys }); }
+    }
+    /**
+     * Remove an entries from the target `IDBObjectStore`, by key
+     * @param storeName the name of the `IDBObjectStore` to remove the values from
+     * @param keys the keys to match 
+     */
+    async removeData(storeName: string, ...keys: (string|number)[])
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'delete' }); }
+        const transaction = this.openTransaction([storeName]);
+        this.#notifyOnComplete(transaction, { storeName, operation: 'remove', ids: keys });
+        await new Promise((resolve, _reject) =>
+        {
+            const objectStore = transaction.objectStore(storeName);
+            const promises: Promise<unknown>[] = [];
+            for(let i = 0; i < keys.length; i++)
+            {
+                const key = keys[i];
+                promises.push(new Promise((innerResolve, innerReject) =>
+                {
+                    const request = objectStore.delete(key);
+                    request.onsuccess = (event: Event) =>
+                    {
+                        const value = (event.target as unknown as { result: unknown }).result;
+                        innerResolve(value);
+                    }
+                    request.onerror = (event: Event) => { innerReject(RecordSetterError.from(event, { storeName, operation: 'delete', key })); }
+                }));
+
+            }
+
+            resolve(Promise.all(promises));
+        });
+        await this.#logChanges(transaction, storeName, keys.map(key => ({ id: key, operation: 'remove', payload: null })));
+    }
+    /**
+     * Append changes made by the data and key-only methods to the change log, if the `changeLog` option is enabled
+     * @param transaction the transaction that made the changes
+     * @param storeName the name of the changed store
+     * @param changes the keys of the changed entries, or `null` for a clear, the operations that changed them, and the entries as they were stored, or `null` if they were removed
+     * @returns a `Promise` that resolves once the changes have been appended
+     */
+    async #logChanges(transaction: RecordBackendTransaction, storeName: string, changes: { id: string|number|null, operation: RecordChangeOperation, payload: unknown }[])
+    {
+        if(this.#changeLogTableName == null || storeName == this.#changeLogTableName || changes.length == 0) { return; }
+        const timestamp = Date.now();
+        await RecordChangeLog.append(transaction, this.#changeLogTableName, changes.map(change => ({ storeName, ...change, timestamp })));
+    }
+    /**
+     * Remove the entries that have expired from the target `IDBObjectStore`, in a single transaction.  
+     * Expired entries are also removed when they are read, so this is only needed to free the space of entries that aren't read again.
+     * @param storeName the name of the `IDBObjectStore` to remove the expired entries from
+     * @returns the keys of the removed entries
+     */
+    async removeExpiredData(storeName: string): Promise<(string|number)[]>
+    {
+        return this.#removeExpiredEntries(storeName);
+    }
+    /**
+     * Create the entry that stores a value
+     * @param key the key of the entry
+     * @param value the value of the entry
+     * @param ttlMs the number of milliseconds until the entry expires, if it expires
+     * @returns the entry to store
+     */
+    #createEntry(key: string|number, value: unknown, ttlMs?: number): RecordSetterDataEntry
+    {
+        return (ttlMs == null) ? { key, value } : { key, value, expires: Date.now() + ttlMs };
+    }
+    /**
+     * Check whether an entry has expired
+     * @param entry the stored entry
+     * @returns `true` if the entry was stored with a `ttlMs` that has passed
+     */
+    #isExpired(entry: RecordSetterDataEntry|undefined)
+    {
+        return entry?.expires != null && entry.expires <= Date.now();
+    }
+    /**
+     * Get the values of entries that were read, removing any that have expired in the background
+     * @param storeName the name of the `IDBObjectStore` the entries were read from
+     * @param entries the entries that were read, or `undefined` for keys that don't exist
+     * @returns the values of the entries, or `null` for entries that don't exist or have expired
+     */
+    #getUnexpiredValues<T>(storeName: string, entries: (RecordSetterDataEntry|undefined)[]): (T|null)[]
+    {
+        const expiredKeys = entries.filter(entry => this.#isExpired(entry)).map(entry => entry!.key);
+        if(expiredKeys.length > 0)
+        {
+            // expired entries are removed lazily; if the removal fails, it's tried again the next time they're read
+            this.#removeExpiredEntries(storeName, expiredKeys).catch(() => { /* the entries are still read as expired */ });
+        }
+        return entries.map(entry => (entry == null || this.#isExpired(entry)) ? null : entry.value as T);
+    }
+    /**
+     * Remove expired entries from the target `IDBObjectStore`, checking that they're still expired in the same transaction that removes them
+     * @param storeName the name of the `IDBObjectStore` to remove the entries from
+     * @param keys the keys of the entries to check; defaults to every entry in the store
+     * @returns the keys of the removed entries
+     */
+    async #removeExpiredEntries(storeName: string, keys?: (string|number)[]): Promise<(string|number)[]>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'delete' }); }
+        const transaction = this.openTransaction([storeName]);
+        const objectStore = transaction.objectStore(storeName);
+        const removedKeys = await new Promise<(string|number)[]>((resolve, reject) =>
+        {
+            const removed: (string|number)[] = [];
+            const onError = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'delete', key: keys })); }
+            if(keys == null)
+            {
+                const request = objectStore.openCursor();
+                request.onsuccess = () =>
+                {
+                    const cursor = request.result;
+                    if(cursor == null) { resolve(removed); return; }
+                    const entry = cursor.value as RecordSetterDataEntry;
+                    if(this.#isExpired(entry))
+                    {
+                        cursor.delete();
+                        removed.push(entry.key);
+                    }
+                    cursor.continue();
+                }
+                request.onerror = onError;
+                return;
+            }
+
+            let remaining = keys.length;
+            if(remaining == 0) { resolve(removed); }
+            for(const key of keys)
+            {
+                const request = objectStore.get(key);
+                request.onsuccess = () =>
+                {
+                    // the entry may have been set again since it was read
+                    if(this.#isExpired(request.result as RecordSetterDataEntry|undefined))
+                    {
+                        objectStore.delete(key);
+                        removed.push(key);
+                    }
+                    if(--remaining == 0) { resolve(removed); }
+                }
+                request.onerror = onError;
+            }
+        });
+        await this.#logChanges(transaction, storeName, removedKeys.map(key => ({ id: key, operation: 'remove', payload: null })));
+        if(removedKeys.length > 0) { this.#notifyOnComplete(transaction, { storeName, operation: 'remove', ids: removedKeys }); }
+        return removedKeys;
+    }
+
+    //#endregion
+
+    //#region Key-Only Management - data like tags, which are just strings, can be stored without even a value. Only a key is necessary
+
+    /**
+     * Query the target `IDBObjectStore` for the target keys, and return all that exist.
+     * @param storeName the name of the `IDBObjectStore` to query
+     * @param keys the keys to match 
+     * @returns the matching keys that exist in the `IDBObjectStore`
+     */
+    async getKeys(storeName: string, ...keys:string[])
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'get' }); }
+        const transaction = this.openTransaction([storeName], 'readonly');
+        const value = await new Promise((resolve, reject) =>
+        {
+            const objectStore = transaction.objectStore(storeName);
+            const request = (keys.length == 0) ? objectStore.getAll() : objectStore.get(keys);
+            request.onsuccess = (event: Event) =>
+            {
+                const record = (event.target as unknown as { result: { key: string }[] }).result;
+                resolve((record == null) ? [] : record.map((item: {key: string}) => { return item.key }));
+            }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'get', key: keys })); }
+        });
+        return value as string[];
+    }
+    /**
+     * Store a key, without an associated value, in the target `IDBObjectStore`
+     * @param storeName the name of the `IDBObjectStore` to store the key in
+     * @param key the value to store
+     * @returns the value that was stored, once it has been committed
+     */
+    async setKey(storeName:string, key: string)
+    {
+        await this.#writeKeys(storeName, 'set', [key]);
+        return key;
+    }
+    /**
+     * Store keys, without associated values, in the target `IDBObjectStore`, in a single transaction
+     * @param storeName the name of the `IDBObjectStore` to store the keys in
+     * @param keys the values to store
+     * @returns an array of the stored keys, once they have been committed
+     */
+    async setKeys(storeName:string, keys: string[]):  Promise<string[]>
+    {
+        await this.#writeKeys(storeName, 'set', keys);
+        return keys;
+    }
+    /**
+     * Removes a key from the target `IDBObjectStore`
+     * @param storeName the name of the `IDBObjectStore` to remove the key from
+     * @param key the key to remove
+     * @returns an awaitable `Promise` that resolves once the key has been removed
+     */
+    async removeKey(storeName: string, key: string)
+    {
+        await this.#writeKeys(storeName, 'remove', [key]);
+    }
+    /**
+     * Remove all keys from the target `IDBObjectStore`
+     * @param storeName the name of the `IDBObjectStore` to remove the keys from
+     * @returns an awaitable `Promise` that resolves once the keys have been removed
+     */
+    async clearStoreKeys(storeName: string)
+    {
+        await this.#writeKeys(storeName, 'clear', []);
+    }
+    /**
+     * List the keys in the target `IDBObjectStore` that are in a range, in order, without reading their values.  
+     * Keys are sorted by their code units, so with slash-separated keys, `prefix: 'proj/'` lists every key under `proj/`.
+     * @example const page = await data.listKeys('tags', { prefix: 'proj/', limit: 50 });
+     * const nextPage = await data.listKeys('tags', { prefix: 'proj/', limit: 50, after: page[page.length - 1] });
+     * @param storeName the name of the `IDBObjectStore` to list the keys of
+     * @param options `RecordSetterKeyListOptions` values, like the `prefix` of the keys and the `limit` of how many to list
+     * @returns the matching keys, in ascending order, or descending order if `reverse` is set
+     */
+    async listKeys(storeName: string, options?: RecordSetterKeyListOptions): Promise<string[]>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'listKeys' }); }
+        const { range, isEmpty } = this.#toKeyRange(options, options?.after, options?.reverse == true);
+        const limit = options?.limit ?? Infinity;
+        if(isEmpty || limit <= 0) { return []; }
+
+        const transaction = this.openTransaction([storeName], 'readonly');
+        return new Promise<string[]>((resolve, reject) =>
+        {
+            const keys: string[] = [];
+            const request = transaction.objectStore(storeName).openKeyCursor(range, (options?.reverse == true) ? 'prev' : 'next');
+            request.onsuccess = () =>
+            {
+                const cursor = request.result;
+                if(cursor == null) { resolve(keys); return; }
+                keys.push(cursor.primaryKey as string);
+                if(keys.length >= limit) { resolve(keys); return; }
+                cursor.continue();
+            }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'listKeys', key: options?.prefix })); }
+        });
+    }
+    /**
+     * Check whether a key exists in the target `IDBObjectStore`
+     * @param storeName the name of the `IDBObjectStore` to check
+     * @param key the key to look for
+     * @returns `true` if the key exists
+     */
+    async hasKey(storeName: string, key: string): Promise<boolean>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'count' }); }
+        const transaction = this.openTransaction([storeName], 'readonly');
+        const count = await new Promise<number>((resolve, reject) =>
+        {
+            const request = transaction.objectStore(storeName).count(key);
+            request.onsuccess = () => { resolve(request.result); }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'count', key })); }
+        });
+        return count > 0;
+    }
+    /**
+     * Count the keys in the target `IDBObjectStore`, or the keys in a range
+     * @param storeName the name of the `IDBObjectStore` to count the keys of
+     * @param options `RecordSetterKeyRangeOptions` values, like the `prefix` of the keys to count
+     * @returns the number of matching keys
+     */
+    async countKeys(storeName: string, options?: RecordSetterKeyRangeOptions): Promise<number>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: 'count' }); }
+        const { range, isEmpty } = this.#toKeyRange(options);
+        if(isEmpty) { return 0; }
+
+        const transaction = this.openTransaction([storeName], 'readonly');
+        return new Promise<number>((resolve, reject) =>
+        {
+            const request = transaction.objectStore(storeName).count(range);
+            request.onsuccess = () => { resolve(request.result); }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'count', key: options?.prefix })); }
+        });
+    }
+    /**
+     * Remove keys from the target `IDBObjectStore`, in a single transaction; if any of them can't be removed, none of them are
+     * @param storeName the name of the `IDBObjectStore` to remove the keys from
+     * @param keys the keys to remove
+     * @returns an awaitable `Promise` that resolves once the keys have been removed
+     */
+    async removeKeys(storeName: string, keys: string[])
+    {
+        await this.#writeKeys(storeName, 'remove', keys);
+    }
+    /**
+     * Store or remove keys in the target `IDBObjectStore`, in a single transaction; if any of them can't be written, none of them are.  
+     * The change is logged in the same transaction, and reported to the `change` listeners once it has been committed.
+     * @param storeName the name of the `IDBObjectStore` to write the keys to
+     * @param operation `set` to store the keys, `remove` to remove them, or `clear` to remove every key
+     * @param keys the keys to store or remove; empty for `clear`
+     * @returns an awaitable `Promise` that resolves once the transaction has been committed
+     */
+    async #writeKeys(storeName: string, operation: 'set'|'remove'|'clear', keys: string[])
+    {
+        const requestOperation = (operation == 'set') ? 'put' : (operation == 'remove') ? 'delete' : 'clear';
+        const key = (operation == 'clear') ? undefined : (keys.length == 1) ? keys[0] : keys;
+        if(this.#database == null) { throw new DatabaseNotOpenError({ storeName, operation: requestOperation }); }
+        if(operation != 'clear' && keys.length == 0) { return; }
+        const transaction = this.openTransaction([storeName]);
+        const completed = new Promise<void>((resolve, reject) =>
+        {
+            transaction.addEventListener('complete', () => { resolve(); });
+            transaction.addEventListener('abort', (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: requestOperation, key })); });
+        });
+        // if a write throws, its error is reported instead of the abort
+        completed.catch(() => { /* handled below */ });
+        this.#notifyOnComplete(transaction, { storeName, operation, ids: keys });
+
+        try
+        {
+            const objectStore = transaction.objectStore(storeName);
+            if(operation == 'clear') { objectStore.clear(); }
+            for(const item of keys)
+            {
+                if(operation == 'set') { objectStore.put({ key: item }); }
+                else { objectStore.delete(item); }
+            }
+            const changes = (operation == 'clear')
+                ? [{ id: null, operation, payload: null }]
+                : keys.map(item => ({ id: item, operation, payload: (operation == 'set') ? { key: item } : null }));
+            await this.#logChanges(transaction, storeName, changes);
+        }
+        catch(error)
+        {
+            // a key that isn't valid throws before its write is queued, so the writes queued before it are rolled back
+            try { transaction.abort(); }
+            catch(_) { /* the transaction has already finished */ }
+            throw RecordSetterError.from(error, { storeName, operation: requestOperation, key });
+        }
+        await completed;
+    }
+    /**
+     * Convert key range options to the key range that matches them
+     * @param options the `prefix`, `from` and `to` of the range
+     * @param after a key to exclude, along with every key before it in the direction of the listing
+     * @param isReversed `true` if the keys are listed in descending order
+     * @returns the key range, or `null` if every key matches; `isEmpty` is `true` if no key can match
+     */
+    #toKeyRange(options?: RecordSetterKeyRangeOptions, after?: string, isReversed: boolean = false): { range: RecordBackendKeyRange|null, isEmpty: boolean }
+    {
+        type Bound = { key: string, isOpen: boolean };
+        const lowers: Bound[] = [];
+        const uppers: Bound[] = [];
+        if(options?.prefix != null)
+        {
+            lowers.push({ key: options.prefix, isOpen: false });
+            uppers.push({ key: options.prefix + '\uffff', isOpen: false });
+        }
+        if(options?.from != null) { lowers.push({ key: options.from, isOpen: false }); }
+        if(options?.to != null) { uppers.push({ key: options.to, isOpen: false }); }
+        if(after != null) { (isReversed ? uppers : lowers).push({ key: after, isOpen: true }); }
+
+        // the narrowest bounds win; at the same key, an open bound is narrower than a closed one
+        const lower = lowers.reduce<Bound|undefined>((current, bound) =>
+        {
+            const comparison = (current == null) ? 1 : this.#backend.cmp(bound.key, current.key);
+            return (comparison > 0 || (comparison == 0 && bound.isOpen)) ? bound : current;
+        }, undefined);
+        const upper = uppers.reduce<Bound|undefined>((current, bound) =>
+        {
+            const comparison = (current == null) ? -1 : this.#backend.cmp(bound.key, current.key);
+            return (comparison < 0 || (comparison == 0 && bound.isOpen)) ? bound : current;
+        }, undefined);
+
+        if(lower != null && upper != null)
+        {
+            const comparison = this.#backend.cmp(lower.key, upper.key);
+            if(comparison > 0 || (comparison == 0 && (lower.isOpen || upper.isOpen))) { return { range: null, isEmpty: true }; }
+            return { range: this.#backend.bound(lower.key, upper.key, lower.isOpen, upper.isOpen), isEmpty: false };
+        }
+        if(lower != null) { return { range: this.#backend.lowerBound(lower.key, lower.isOpen), isEmpty: false }; }
+        if(upper != null) { return { range: this.#backend.upperBound(upper.key, upper.isOpen), isEmpty: false }; }
+        return { range: null, isEmpty: false };
+    }
+
+    //#endregion
+
+    //#region Backup - Export and import the contents of the whole database
+
+    /**
+     * Serialize every store in the database, including the key/value and key-only stores, to a JSON-compatible object.  
+     * `Blob`, `ArrayBuffer`, typed array and `DataView` values are encoded as base64 with their type, `Date` values as ISO strings,
+     * and `Map` and `Set` values as arrays of their entries, so the result can be passed to `JSON.stringify` and restored with `importDatabase`.
+     * @example const backup = JSON.stringify(await data.exportDatabase());
+     * @returns a `RecordSetterExport` of the database's schema, version and data
+     */
+    async exportDatabase(): Promise<RecordSetterExport>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ operation: 'exportDatabase' }); }
+        // the change log and history describe this database's own changes, so they aren't part of its data
+        const storeNames = Array.from(this.#database.objectStoreNames).filter(storeName => !RecordSetter.#internalTableNames.includes(storeName));
+        const transaction = this.openTransaction(storeNames, 'readonly');
+        const values = await Promise.all(storeNames.map(storeName => new Promise<unknown[]>((resolve, reject) =>
+        {
+            const request = transaction.objectStore(storeName).getAll();
+            request.onsuccess = () => { resolve(request.result); }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'exportDatabase' })); }
+        })));
+
+        // blobs can only be read asynchronously, so values are encoded after the transaction has finished reading
+        const stores: { [storeName: string]: unknown[] } = {};
+        for(let i = 0; i < storeNames.length; i++)
+        {
+            stores[storeNames[i]] = await Promise.all(values[i].map(item => this.#encodeExportValue(item)));
+        }
+
+        return {
+            name: this.#database.name,
+            version: this.#database.version,
+            schema: { ...this.#schema },
+            keyValueTableName: this.#keyValueTableName,
+            exportedTimestamp: Date.now(),
+            stores,
+        };
+    }
+    /**
+     * Restore the data from a `RecordSetterExport` in a single transaction.  
+     * Every store in the export must exist in this database; if any value fails to be stored, none of the export is restored.
+     * The change log and history aren't restored, even if the export contains them; the imported values are logged to the change log, like any other write.
+     * @example await data.importDatabase(JSON.parse(backup), { mode: 'replace' });
+     * @param dump the `RecordSetterExport` to restore, as returned by `exportDatabase`
+     * @param options `RecordSetterImportOptions` values
+     * @returns an awaitable `Promise` that resolves once the import has been committed
+     */
+    async importDatabase(dump: RecordSetterExport, options?: RecordSetterImportOptions): Promise<void>
+    {
+        if(this.#database == null) { throw new DatabaseNotOpenError({ operation: 'importDatabase' }); }
+        if(dump == null || dump.stores == null) { throw new RecordSetterError("Unable to import data that was not created by exportDatabase.", { operation: 'importDatabase' }); }
+
+        const database = this.#database;
+        // the change log and history of the exported database are left out, like they are by exportDatabase
+        const importNames = Object.keys(dump.stores).filter(storeName => !RecordSetter.#internalTableNames.includes(storeName));
+        const missingNames = importNames.filter(storeName => !database.objectStoreNames.contains(storeName));
+        if(missingNames.length > 0) { throw new StoreNotFoundError(missingNames[0], { operation: 'importDatabase', key: missingNames }); }
+
+        const mode = options?.mode ?? 'merge';
+        const storeNames = (mode == 'replace') ? Array.from(database.objectStoreNames).filter(storeName => !RecordSetter.#internalTableNames.includes(storeName)) : importNames;
+        if(storeNames.length == 0) { return; }
+
+        const stores = new Map(importNames.map(storeName => [storeName, dump.stores[storeName].map(item => this.#decodeExportValue(item))]));
+        const transaction = this.openTransaction(storeNames, 'readwrite');
+        const completed = new Promise<void>((resolve, reject) =>
+        {
+            transaction.addEventListener('complete', () => { resolve(); });
+            transaction.addEventListener('abort', (event: Event) => { reject(RecordSetterError.from(event, { operation: 'importDatabase' })); });
+        });
+        // if a write fails, its error is reported instead of the abort
+        completed.catch(() => { /* handled below */ });
+
+        const keys = new Map<string, (string|number)[]>();
+        try
+        {
+            for(const storeName of storeNames)
+            {
+                const objectStore = transaction.objectStore(storeName);
+                if(mode == 'replace') { objectStore.clear(); }
+
+                const values = stores.get(storeName) ?? [];
+                const storeKeys = await Promise.all(values.map(value => new Promise<string|number>((resolve, reject) =>
+                {
+                    const request = objectStore.put(value);
+                    request.onsuccess = () => { resolve(request.result as string|number); }
+                    request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { storeName, operation: 'importDatabase' })); }
+                })));
+                keys.set(storeName, storeKeys);
+
+                // imported data is synced like any other write
+                const changes: { id: string|number|null, operation: RecordChangeOperation, payload: unknown }[] = storeKeys.map((key, index) => ({ id: key, operation: 'set', payload: values[index] }));
+                if(mode == 'replace') { changes.unshift({ id: null, operation: 'clear', payload: null }); }
+                await this.#logChanges(transaction, storeName, changes);
+            }
+        }
+        catch(error)
+        {
+            try { transaction.abort(); }
+            catch(_) { /* the transaction has already finished */ }
+            throw RecordSetterError.from(error, { operation: 'importDatabase' });
+        }
+        await completed;
+
+        for(const storeName of storeNames)
+        {
+            const events: RecordChangeEvent[] = [];
+            if(mode == 'replace') { events.push({ storeName, operation: 'clear', ids: [] }); }
+            if((keys.get(storeName) ?? []).length > 0) { events.push({ storeName, operation: 'set', ids: keys.get(storeName)! }); }
+
+            // managed stores relay their changes to this instance's listeners
+            const store = this.stores.get(storeName);
+            for(const event of events)
+            {
+                if(store != null) { store.publishChange(event); }
+                else { this.#emitChange(event); }
+            }
+        }
+    }
+    /**
+     * Convert a stored value into a value that can be represented in JSON.  
+     * Values that JSON can't represent are replaced with objects tagged by a `$` property: `$blob` and `$bytes` for binary data in base64,
+     * `$date` for dates, and `$map` and `$set` for the entries of maps and sets. Objects with a key that starts with `$` are wrapped in an `$object` tag.
+     * @param value the value to convert
+     * @returns the converted value
+     */
+    async #encodeExportValue(value: unknown): Promise<unknown>
+    {
+        if(value instanceof Blob)
+        {
+            return { $blob: RecordSetter.#toBase64(new Uint8Array(await value.arrayBuffer())), type: value.type };
+        }
+        if(value instanceof ArrayBuffer) { return { $bytes: RecordSetter.#toBase64(new Uint8Array(value)), type: 'ArrayBuffer' }; }
+        if(ArrayBuffer.isView(value))
+        {
+            const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength);
+            return { $bytes: RecordSetter.#toBase64(bytes), type: (value as unknown as { [Symbol.toStringTag]: string })[Symbol.toStringTag] };
+        }
+        if(value instanceof Date) { return { $date: value.toISOString() }; }
+        if(value instanceof Map)
+        {
+            return { $map: await Promise.all(Array.from(value, entry => Promise.all(entry.map(item => this.#encodeExportValue(item))))) };
+        }
+        if(value instanceof Set) { return { $set: await Promise.all(Array.from(value, item => this.#encodeExportValue(item))) }; }
+        if(Array.isArray(value)) { return Promise.all(value.map(item => this.#encodeExportValue(item))); }
+        if(value != null && typeof value == 'object')
+        {
+            const encoded: { [key: string]: unknown } = {};
+            for(const [key, item] of Object.entries(value))
+            {
+                encoded[key] = await this.#encodeExportValue(item);
+            }
+            // objects whose keys could be mistaken for a tag are wrapped, so they're restored as they are
+            return Object.keys(encoded).some(key => key.startsWith('$')) ? { $object: encoded } : encoded;
+        }
+        return value;
+    }
+    /**
+     * Convert a value that was encoded by `#encodeExportValue` back into the value that was stored
+     * @param value the value to convert
+     * @returns the converted value
+     */
+    #decodeExportValue(value: unknown): unknown
+    {
+        if(Array.isArray(value)) { return value.map(item => this.#decodeExportValue(item)); }
+        if(value == null || typeof value != 'object') { return value; }
+
+        const encoded = value as { [key: string]: unknown };
+        const keys = Object.keys(encoded);
+        if(typeof encoded.$blob == 'string' && keys.length == 2 && typeof encoded.type == 'string')
+        {
+            return new Blob([RecordSetter.#fromBase64(encoded.$blob)], { type: encoded.type });
+        }
+        if(typeof encoded.$bytes == 'string' && keys.length == 2 && typeof encoded.type == 'string')
+        {
+            const bytes = RecordSetter.#fromBase64(encoded.$bytes);
+            if(encoded.type == 'ArrayBuffer') { return bytes.buffer; }
+            if(encoded.type == 'DataView') { return new DataView(bytes.buffer); }
+            const typedArrays: { [type: string]: new (buffer: ArrayBuffer) => ArrayBufferView } =
+            {
+                Int8Array, Uint8Array, Uint8ClampedArray, Int16Array, Uint16Array, Int32Array, Uint32Array, Float32Array, Float64Array, BigInt64Array, BigUint64Array,
+            };
+            if(!Object.prototype.hasOwnProperty.call(typedArrays, encoded.type))
+            {
+                throw new RecordSetterError(`The export contains binary data of an unknown type, "${encoded.type}".`, { operation: 'importDatabase' });
+            }
+            return new typedArrays[encoded.type](bytes.buffer);
+        }
+        if(typeof encoded.$date == 'string' && keys.length == 1) { return new Date(encoded.$date); }
+        if(Array.isArray(encoded.$map) && keys.length == 1)
+        {
+            return new Map((encoded.$map as unknown[][]).map(entry => [this.#decodeExportValue(entry[0]), this.#decodeExportValue(entry[1])]));
+        }
+        if(Array.isArray(encoded.$set) && keys.length == 1) { return new Set(encoded.$set.map(item => this.#decodeExportValue(item))); }
+        const isWrapped = encoded.$object != null && typeof encoded.$object == 'object' && keys.length == 1;
+        const properties = isWrapped ? encoded.$object as { [key: string]: unknown } : encoded;
+
+        const decoded: { [key: string]: unknown } = {};
+        for(const key of Object.keys(properties))
+        {
+            decoded[key] = this.#decodeExportValue(properties[key]);
+        }
+        return decoded;
+    }
+    /**
+     * Encode bytes as base64
+     * @param bytes the bytes to encode
+     * @returns the base64 text
+     */
+    static #toBase64(bytes: Uint8Array)
+    {
+        let binary = '';
+        // convert in chunks, to stay under the argument limit of `fromCharCode`
+        for(let i = 0; i < bytes.length; i += 0x8000)
+        {
+            binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return btoa(binary);
+    }
+    /**
+     * Decode base64 text into bytes
+     * @param text the base64 text to decode
+     * @returns the decoded bytes, in a buffer of their own
+     */
+    static #fromBase64(text: string)
+    {
+        const binary = atob(text);
+        const bytes = new Uint8Array(binary.length);
+        for(let i = 0; i < binary.length; i++)
+        {
+            bytes[i] = binary.charCodeAt(i);
+        }
+        return bytes;
+    }
+
+    //#endregion
+
+    //#region Events - Change notifications, shared with other tabs
+
+    /**
+     * Listen for changes to any store in the database, including the key/value and data stores.  
+     * Listeners are called once the transaction that made the change has been committed.
+     * Changes made by other tabs that have the same database open are also reported, with `remote` set to `true`.
+     * @param type the type of event to listen for
+     * @param listener the function to call with each `RecordChangeEvent`
+     */
+    on(type: 'change', listener: RecordChangeListener)
+    {
+        if(type != 'change') { return; }
+        this.#changeListeners.add(listener);
+    }
+    /**
+     * Stop listening for changes
+     * @param type the type of event to stop listening for
+     * @param listener the listener that was passed to `on`
+     */
+    off(type: 'change', listener: RecordChangeListener)
+    {
+        if(type != 'change') { return; }
+        this.#changeListeners.delete(listener);
+    }
+    /**
+     * Report a change that was made outside of this instance's stores and methods, like the changes that a `SyncManager` pulls.  
+     * The change is reported to the listeners of the affected store, or to this instance's listeners if the store is not a `RecordStore`
+     * managed by this instance, and to other tabs.
+     * @param event the change to report
+     */
+    publishChange(event: RecordChangeEvent)
+    {
+        const store = this.stores.get(event.storeName);
+        if(store != null)
+        {
+            // the store's subscription relays the change to this instance's listeners
+            store.publishChange(event);
+            return;
+        }
+        this.#emitChange(event);
+    }
+    /**
+     * Report a change to this instance's listeners, and to other tabs if the change was made by this one
+     * @param event the change to report
+     */
+    #emitChange(event: RecordChangeEvent)
+    {
+        for(const listener of Array.from(this.#changeListeners))
+        {
+            listener(event);
+        }
+        if(event.remote != true && this.#channel != null)
+        {
+            this.#channel.postMessage(event);
+        }
+    }
+    /**
+     * Report a change made by another tab to the listeners of the affected store, or to this instance's listeners
+     * if the store is not a `RecordStore` managed by this instance
+     * @param event the change that was made by the other tab
+     */
+    #receiveChange(event: RecordChangeEvent)
+    {
+        const remoteEvent = { ...event, remote: true };
+        const store = this.stores.get(event.storeName);
+        if(store != null)
+        {
+            // the store's subscription relays the change to this instance's listeners
+            store.publishChange(remoteEvent);
+            return;
+        }
+        this.#emitChange(remoteEvent);
+    }
+    /**
+     * Report a change once the transaction it was made in has been committed
+     * @param transaction the transaction the change was made in
+     * @param event the change to report
+     */
+    #notifyOnComplete(transaction: RecordBackendTransaction, event: RecordChangeEvent)
+    {
+        transaction.addEventListener('complete', () => { this.#emitChange(event); });
+    }
+    /**
+     * Create a `RecordStore` whose changes are reported to this instance's listeners
+     * @param storeName the name of the store
+     * @param tables the names of all tables that the store will share transactions with
+     * @param options `RecordStoreOptions` values for the new `RecordStore` instance
+     * @returns a new `RecordStore` instance
+     */
+    #createStore<T extends RecordBase = RecordBase>(storeName: string, tables: string[], options?: RecordStoreOptions<T>): RecordStore<T>
+    {
+        let storeOptions = options;
+        if(this.#changeLogTableName != null) { storeOptions = { ...storeOptions, changeLogTableName: this.#changeLogTableName }; }
+        if(this.#history.isEnabled) { storeOptions = { ...storeOptions, history: this.#history }; }
+        const store = new RecordStore<T>(this.#database!, storeName, tables, storeOptions, (name: string) => this.stores.get(name) ?? this.#createStore(name, [name]), this.#backend);
+        store.subscribe((event: RecordChangeEvent) => { this.#emitChange(event); });
+        return store;
+    }
+
+    //#endregion
+    
+    /**
+     * Create a schema that describes the type of `Record` that each of its stores manages.  
+     * `RecordSetter` instances opened with the schema return typed stores from `getStore` and `addStore`,
+     * whose `query` only accepts the properties that the schema indexes.
+     * @example const schema = RecordSetter.defineSchema<{ users: UserRecord, tasks: TaskRecord }>()({ users: "id, name", tasks: "id, [type+taskId]" });
+     * const data = await RecordSetter.activate({ name: 'example', version: 1, schema });
+     * @template M an object type with a property for each record store, whose type is the store's `Record` type
+     * @returns a function that takes the schema, and returns it typed with the `Record` types
+     */
+    static defineSchema<M extends { [N in keyof M]: RecordBase }>()
+    {
+        return <const S extends { [N in keyof M]: string } & RecordSetterSchema>(schema: S) => schema as RecordSetterTypedSchema<S, M>;
+    }
+    /**
+     * Create a random, locally-unique string value to use as an id
+     * @returns a `string` id value
+     */
+    static generateId(): string
+    {
+        const rnd = new Uint8Array(20);
+        crypto.getRandomValues(rnd);
+
+        const b64 = [].slice
+            .apply(rnd)
+            .map(function (ch) 
+            {
+                return String.fromCharCode(ch);
+            })
+            .join('');
+
+        const secret = btoa(b64)
+            .replace(/\//g, '_')
+            .replace(/\+/g, '-')
+            .replace(/=/g, '');
+
+        return secret;
+    }
+}
+
+/** The state that a `SyncManager` keeps in the change log table, alongside the changes */
+interface RecordSyncState
+{
+    /** The key of the state; numbers sort before the string sequences of the changes */
+    sequence: 0;
+    /** The checkpoint to pull the next changes from */
+    checkpoint: string|null;
+}
+/** Pushes the changes in a `RecordSetter`'s change log to a server, and pulls the changes that were made there, through a `RecordSyncTransport`.  
+* The `RecordSetter` must be opened with the `changeLog` option. */
+export class SyncManager<S extends RecordSetterSchema = RecordSetterSchema>
+{
+    #setter: RecordSetter<S>;
+    #transport: RecordSyncTransport;
+    #resolve: RecordSyncResolver;
+    #batchSize: number;
+    #queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Pushes the changes in a `RecordSetter`'s change log to a server, and pulls the changes that were made there.
+     * @example const sync = new SyncManager(data, { push: (changes) => api.push(changes), pull: (checkpoint) => api.pull(checkpoint) });
+     * await sync.sync();
+     * @template S the schema of the `RecordSetter`
+     * @param setter an open `RecordSetter`, with the `changeLog` option enabled
+     * @param transport the `RecordSyncTransport` that communicates with the server
+     * @param options `SyncManagerOptions` values, like how to `resolve` conflicts
+     */
+    constructor(setter: RecordSetter<S>, transport: RecordSyncTransport, options?: SyncManagerOptions)
+    {
+        if(setter.changeLogTableName == null) { throw new RecordSetterError("A SyncManager can only sync a RecordSetter that was opened with the changeLog option.", { operation: 'sync' }); }
+        this.#setter = setter;
+        this.#transport = transport;
+        this.#resolve = options?.resolve ?? ((local, remote) => (remote.timestamp >= local.timestamp) ? remote : local);
+        this.#batchSize = Math.max(1, options?.batchSize ?? 100);
+    }
+
+    /**
+     * Pull the changes that were made on the server, resolving any conflicts with local changes, then push the local changes.  
+     * Syncs, pushes and pulls run one at a time, in the order they were called.
+     * @returns the numbers of changes that were pushed and pulled, and of conflicts
+     */
+    sync(): Promise<RecordSyncResult>
+    {
+        return this.#enqueue(async () =>
+        {
+            const { pulled, conflicts } = await this.#pull();
+            const pushed = await this.#push();
+            return { pushed, pulled, conflicts };
+        });
+    }
+    /**
+     * Push the changes in the change log to the server, in batches of `batchSize`.  
+     * Each batch is removed from the change log once the transport has pushed it, so if a push fails, the batches after it are pushed again later.
+     * @returns the number of changes that were pushed
+     */
+    push(): Promise<number>
+    {
+        return this.#enqueue(() => this.#push());
+    }
+    /**
+     * Pull the changes that were made on the server since the last pull, and apply them, along with the new checkpoint, in a single transaction.
+     * @returns the number of changes that were pulled, and how many of them conflicted with local changes
+     */
+    pull(): Promise<{ pulled: number, conflicts: number }>
+    {
+        return this.#enqueue(() => this.#pull());
+    }
+    /**
+     * Get the changes that are waiting to be pushed
+     * @returns the entries of the change log, in the order they will be pushed
+     */
+    async getPendingChanges(): Promise<RecordChangeLogEntry[]>
+    {
+        return (await this.#readLog()).entries;
+    }
+    /**
+     * Get the checkpoint that the next pull starts from
+     * @returns the checkpoint, or `null` if nothing has been pulled yet
+     */
+    async getCheckpoint(): Promise<string|null>
+    {
+        return (await this.#readLog()).checkpoint;
+    }
+
+    /**
+     * Run a task once the tasks before it have finished
+     * @param task the task to run
+     * @returns the result of the task
+     */
+    #enqueue<R>(task: () => Promise<R>): Promise<R>
+    {
+        const result = this.#queue.then(task);
+        this.#queue = result.catch(() => { /* the caller handles the error */ });
+        return result;
+    }
+    /**
+     * Push the changes in the change log, one batch at a time
+     * @returns the number of changes that were pushed
+     */
+    async #push()
+    {
+        const tableName = this.#setter.changeLogTableName!;
+        const { entries } = await this.#readLog();
+        let pushed = 0;
+        for(let i = 0; i < entries.length; i += this.#batchSize)
+        {
+            const batch = entries.slice(i, i + this.#batchSize);
+            await this.#transport.push(batch);
+
+            const objectStore = this.#setter.openTransaction([tableName]).objectStore(tableName);
+            await Promise.all(batch.map(entry => this.#request(objectStore.delete(entry.sequence), 'delete', entry.sequence)));
+            pushed += batch.length;
+        }
+        return pushed;
+    }
+    /**
+     * Pull changes until the transport has no more of them
+     * @returns the number of changes that were pulled, and how many of them conflicted with local changes
+     */
+    async #pull()
+    {
+        let { checkpoint } = await this.#readLog();
+        let pulled = 0;
+        let conflicts = 0;
+        while(true)
+        {
+            const result = await this.#transport.pull(checkpoint);
+            conflicts += await this.#applyChanges(result.changes, result.checkpoint);
+            pulled += result.changes.length;
+            // a checkpoint that doesn't move would pull the same changes forever
+            const isMoved = result.checkpoint != checkpoint;
+            checkpoint = result.checkpoint;
+            if(result.hasMore != true || !isMoved) { break; }
+        }
+        return { pulled, conflicts };
+    }
+    /**
+     * Apply pulled changes, and save the checkpoint after them, in a single transaction.  
+     * Changes are written directly to the stores, so that they aren't logged again, and then reported to the stores' listeners.
+     * @param changes the pulled changes
+     * @param checkpoint the checkpoint to pull the next changes from
+     * @returns the number of changes that conflicted with local changes
+     */
+    async #applyChanges(changes: RecordSyncChange[], checkpoint: string|null)
+    {
+        const tableName = this.#setter.changeLogTableName!;
+        const storeNames = Array.from(new Set(changes.map(change => change.storeName)));
+        const transaction = this.#setter.openTransaction([...storeNames, tableName]);
+        const completed = new Promise<void>((resolve, reject) =>
+        {
+            transaction.addEventListener('complete', () => { resolve(); });
+            transaction.addEventListener('abort', (event: Event) => { reject(RecordSetterError.from(event, { operation: 'sync' })); });
+        });
+        // if applying the changes fails, its error is reported instead of the abort
+        completed.catch(() => { /* handled below */ });
+
+        const events: RecordChangeEvent[] = [];
+        let conflicts = 0;
+        try
+        {
+            const log = transaction.objectStore(tableName);
+            const pending = new Map<string, RecordChangeLogEntry[]>();
+            for(const entry of (await this.#request<unknown[]>(log.getAll(), 'getAll')).filter(RecordChangeLog.isEntry))
             {
-                name = key.substring(1);
-                unique = true;
+                const key = this.#getChangeKey(entry);
+                pending.set(key, [...(pending.get(key) ?? []), entry]);
             }
-            else if(key.startsWith('[') && key.endsWith(']'))
+
+            for(const remote of changes)
             {
-                name = key.substring(1, key.length -1);
-                const compositeArray = name.split('+');
-                keyPath = compositeArray;
-                // console.log('composite', compositeArray);
+                let change = remote;
+                const restored: RecordChangeLogEntry[] = [];
+                if(remote.operation == 'clear')
+                {
+                    // local changes made before the store was cleared on the server are discarded along with it,
+                    // and the records of the changes made after it are stored again once it has been cleared
+                    for(const [key, entries] of Array.from(pending))
+                    {
+                        if(entries[0].storeName != remote.storeName) { continue; }
+                        const discarded = entries.filter(entry => entry.timestamp <= remote.timestamp);
+                        await Promise.all(discarded.map(entry => this.#request(log.delete(entry.sequence), 'delete', entry.sequence)));
+                        const kept = entries.filter(entry => entry.timestamp > remote.timestamp);
+                        if(kept.length > 0) { restored.push(kept[kept.length - 1]); }
+                        else { pending.delete(key); }
+                    }
+                }
+                else if(pending.has(this.#getChangeKey(remote)))
+                {
+                    conflicts++;
+                    const key = this.#getChangeKey(remote);
+                    const entries = pending.get(key)!;
+                    const local = entries[entries.length - 1];
+                    change = this.#resolve(local, remote);
+                    if(change == local) { continue; }
+
+                    await Promise.all(entries.map(entry => this.#request(log.delete(entry.sequence), 'delete', entry.sequence)));
+                    pending.delete(key);
+                    // a merged change is pushed, so that the server gets it too
+                    if(change != remote) { await RecordChangeLog.append(transaction, tableName, [{ ...change, timestamp: Date.now() }]); }
+                }
+
+                for(const applied of [change, ...restored])
+                {
+                    const event = await this.#applyChange(transaction, applied);
+                    if(event != null) { events.push(event); }
+                }
+            }
+
+            const state: RecordSyncState = { sequence: 0, checkpoint };
+            await this.#request(log.put(state), 'put', state.sequence);
+        }
+        catch(error)
+        {
+            try { transaction.abort(); }
+            catch(_) { /* the transaction has already finished */ }
+            throw RecordSetterError.from(error, { operation: 'sync' });
+        }
+
+        try { transaction.commit?.(); }
+        catch(_) { /* the transaction has already committed */ }
+        await completed;
+
+        for(const event of events)
+        {
+            this.#setter.publishChange(event);
+        }
+        return conflicts;
+    }
+    /**
+     * Write a change to its store.  
+     * Changes to the records of a `RecordStore` that this instance manages are written by the store's `applyChanges`, so that they get the store's
+     * revisions, timestamps, hooks and search tokens, without being logged again; the store reports them once they have been committed.
+     * Other changes, and clears, are written directly.
+     * @param transaction the transaction to write the change in
+     * @param change the change to write
+     * @returns the event to report once the transaction has been committed, or `null` if the store reports the change itself
+     */
+    async #applyChange(transaction: RecordBackendTransaction, change: RecordSyncChange): Promise<RecordChangeEvent|null>
+    {
+        const store = (change.operation == 'clear' || change.id == null) ? undefined : this.#setter.stores.get(change.storeName);
+        if(store != null)
+        {
+            await store.withTransaction(transaction).applyChanges([{ id: String(change.id), record: change.payload as RecordBase|null }], { isLogged: false });
+            return null;
+        }
+
+        const objectStore = transaction.objectStore(change.storeName);
+        // removals with a payload are tombstones of soft-deleted records, which are stored like any other record
+        if(change.operation == 'clear') { await this.#request(objectStore.clear(), 'clear'); }
+        else if(change.payload != null) { await this.#request(objectStore.put(change.payload), 'put', change.id); }
+        else { await this.#request(objectStore.delete(change.id!), 'delete', change.id); }
+        return { storeName: change.storeName, operation: change.operation, ids: (change.id == null) ? [] : [change.id] };
+    }
+    /**
+     * Read the change log table
+     * @returns the changes that are waiting to be pushed, and the checkpoint to pull from
+     */
+    async #readLog()
+    {
+        const tableName = this.#setter.changeLogTableName!;
+        const objectStore = this.#setter.openTransaction([tableName], 'readonly').objectStore(tableName);
+        const values = await this.#request<unknown[]>(objectStore.getAll(), 'getAll');
+        const state = values.find(value => !RecordChangeLog.isEntry(value)) as RecordSyncState|undefined;
+        return { entries: values.filter(RecordChangeLog.isEntry), checkpoint: state?.checkpoint ?? null };
+    }
+    /**
+     * Get a key that identifies the record or value that a change was made to
+     * @param change the change
+     * @returns the key
+     */
+    #getChangeKey(change: RecordSyncChange)
+    {
+        return JSON.stringify([change.storeName, change.id]);
+    }
+    /**
+     * Wrap a request to the change log, or a store, in a `Promise`
+     * @param request the request to wrap
+     * @param operation the name of the operation, for reporting errors
+     * @param key the key the operation was using, for reporting errors
+     * @returns a `Promise` that resolves with the request's result
+     */
+    #request<R>(request: RecordBackendRequest, operation: string, key?: unknown): Promise<R>
+    {
+        return new Promise<R>((resolve, reject) =>
+        {
+            request.onsuccess = () => { resolve(request.result as R); }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { operation, key })); }
+        });
+    }
+}
+
+/** The undo and redo stacks that a `RecordHistory` keeps in its table, when it is persisted */
+interface RecordHistoryState
+{
+    /** The key of the stack */
+    key: 'undo'|'redo';
+    /** The units of the stack, oldest first */
+    units: RecordHistoryUnit[];
+}
+/** The images recorded in a transaction that hasn't finished yet */
+interface RecordHistoryPending
+{
+    /** The images recorded in the transaction */
+    images: RecordHistoryImage[];
+    /** Resolves once the transaction has committed or aborted */
+    finished: Promise<void>;
+}
+/** The units being recorded by a call to `RecordHistory.batch` */
+interface RecordHistoryBatch
+{
+    /** The name of the unit the batch is recorded as */
+    name: string;
+    /** The images of the transactions that have been committed during the batch */
+    images: RecordHistoryImage[];
+    /** Promises that resolve once each transaction started during the batch has finished */
+    transactions: Promise<void>[];
+}
+/** Records the before and after images of the records changed by a `RecordSetter`'s stores, so that the changes can be undone and redone.
+* Each transaction is recorded as one unit, unless it was made during a `batch`. Only `updateRecord(s)`, `removeRecord(s)` and `restoreRecord(s)`,
+* and the operations built on them, are recorded; clearing a store, and changes made through the key/value and data methods, are not. */
+export class RecordHistory<S extends RecordSetterSchema = RecordSetterSchema>
+{
+    #setter: RecordSetter<S>;
+    #isEnabled: boolean;
+    #isPersisted: boolean;
+    #depth: number;
+    #undoUnits: RecordHistoryUnit[] = [];
+    #redoUnits: RecordHistoryUnit[] = [];
+    #pending: Map<RecordBackendTransaction, RecordHistoryPending> = new Map();
+    #batch?: RecordHistoryBatch;
+    #queue: Promise<unknown> = Promise.resolve();
+
+    /**
+     * Records the changes made by a `RecordSetter`'s stores, so that they can be undone and redone.
+     * `RecordSetter` creates its own `RecordHistory`, as `history`, from its `history` option.
+     * @template S the schema of the `RecordSetter`
+     * @param setter the `RecordSetter` whose stores' changes are recorded
+     * @param options `RecordHistoryOptions` values; changes are only recorded when they are set
+     */
+    constructor(setter: RecordSetter<S>, options?: RecordHistoryOptions)
+    {
+        this.#setter = setter;
+        this.#isEnabled = options != null;
+        this.#isPersisted = options?.persist == true;
+        this.#depth = Math.max(1, options?.depth ?? 100);
+    }
+
+    /** Whether changes are being recorded */
+    get isEnabled() { return this.#isEnabled; }
+    /** Whether there is a unit to undo */
+    get canUndo() { return this.#undoUnits.length > 0; }
+    /** Whether there is a unit to redo */
+    get canRedo() { return this.#redoUnits.length > 0; }
+    /** The units that can be undone, oldest first */
+    get undoUnits(): readonly RecordHistoryUnit[] { return this.#undoUnits; }
+    /** The units that can be redone, oldest first */
+    get redoUnits(): readonly RecordHistoryUnit[] { return this.#redoUnits; }
+
+    /**
+     * Record the images of records changed in a transaction; they are added to the history once the transaction has committed
+     * @param transaction the transaction the records were changed in
+     * @param images the states of the records before and after the change
+     */
+    record(transaction: RecordBackendTransaction, images: RecordHistoryImage[])
+    {
+        if(!this.#isEnabled || images.length == 0) { return; }
+        let pending = this.#pending.get(transaction);
+        if(pending == null)
+        {
+            const transactionImages: RecordHistoryImage[] = [];
+            const batch = this.#batch;
+            const finished = new Promise<void>((resolve) =>
+            {
+                transaction.addEventListener('complete', () =>
+                {
+                    this.#pending.delete(transaction);
+                    if(batch != null) { batch.images.push(...transactionImages); }
+                    else { this.#addUnit(this.#createUnit(undefined, transactionImages)); }
+                    resolve();
+                });
+                transaction.addEventListener('abort', () =>
+                {
+                    this.#pending.delete(transaction);
+                    resolve();
+                });
+            });
+            pending = { images: transactionImages, finished };
+            this.#pending.set(transaction, pending);
+            batch?.transactions.push(finished);
+        }
+        // the records can be changed after they're stored, so the images are copied
+        pending.images.push(...images.map(image => structuredClone(image)));
+    }
+    /**
+     * Record every change made while a function runs as a single, named unit, so that they are undone and redone together.
+     * Changes made by other code while the function runs are included too. Batches started inside a batch are part of the outer batch.
+     * @example await data.history.batch('move task', async () =>
+     * {
+     *     await tasks.removeRecord(task.id);
+     *     await archive.updateRecord(task);
+     * });
+     * @param name the name of the unit
+     * @param callback the function to run
+     * @returns the value returned by the callback, once the transactions it started have finished
+     */
+    async batch<R>(name: string, callback: () => R|Promise<R>): Promise<R>
+    {
+        if(this.#batch != null || !this.#isEnabled) { return callback(); }
+
+        const batch: RecordHistoryBatch = { name, images: [], transactions: [] };
+        this.#batch = batch;
+        try
+        {
+            return await callback();
+        }
+        finally
+        {
+            this.#batch = undefined;
+            // the changes that were committed are recorded even if the function failed part of the way through
+            await Promise.all(batch.transactions);
+            if(batch.images.length > 0) { this.#addUnit(this.#createUnit(name, batch.images)); }
+        }
+    }
+    /**
+     * Restore the records of the most recent unit to how they were before it, in a single transaction.  
+     * Changes that are still being committed are recorded first, so they are the ones that are undone.
+     * @returns the unit that was undone, or `null` if there was nothing to undo
+     */
+    undo(): Promise<RecordHistoryUnit|null>
+    {
+        return this.#enqueue(async () =>
+        {
+            await this.#waitForPending();
+            const unit = this.#undoUnits.pop();
+            if(unit == null) { return null; }
+            try
+            {
+                this.#redoUnits.push(unit);
+                await this.#applyUnit(unit, 'before');
+            }
+            catch(error)
+            {
+                this.#redoUnits.pop();
+                this.#undoUnits.push(unit);
+                throw error;
+            }
+            return unit;
+        });
+    }
+    /**
+     * Make the changes of the most recently undone unit again, in a single transaction
+     * @returns the unit that was redone, or `null` if there was nothing to redo
+     */
+    redo(): Promise<RecordHistoryUnit|null>
+    {
+        return this.#enqueue(async () =>
+        {
+            await this.#waitForPending();
+            const unit = this.#redoUnits.pop();
+            if(unit == null) { return null; }
+            try
+            {
+                this.#undoUnits.push(unit);
+                await this.#applyUnit(unit, 'after');
+            }
+            catch(error)
+            {
+                this.#undoUnits.pop();
+                this.#redoUnits.push(unit);
+                throw error;
+            }
+            return unit;
+        });
+    }
+    /**
+     * Forget every unit that can be undone or redone
+     * @returns an awaitable `Promise` that resolves once the persisted history has been cleared too
+     */
+    clear(): Promise<void>
+    {
+        return this.#enqueue(async () =>
+        {
+            this.#undoUnits = [];
+            this.#redoUnits = [];
+            await this.#save();
+        });
+    }
+    /**
+     * Read the persisted history from its table, replacing the units in memory.
+     * `RecordSetter` loads its history when it is opened.
+     * @returns an awaitable `Promise`
+     */
+    load(): Promise<void>
+    {
+        return this.#enqueue(async () =>
+        {
+            const tableName = this.#setter.historyTableName;
+            if(!this.#isPersisted || tableName == null) { return; }
+            const objectStore = this.#setter.openTransaction([tableName], 'readonly').objectStore(tableName);
+            const states = await this.#request<RecordHistoryState[]>(objectStore.getAll(), 'getAll');
+            this.#undoUnits = states.find(state => state.key == 'undo')?.units ?? [];
+            this.#redoUnits = states.find(state => state.key == 'redo')?.units ?? [];
+        });
+    }
+
+    /**
+     * Run a task once the tasks before it have finished
+     * @param task the task to run
+     * @returns the result of the task
+     */
+    #enqueue<R>(task: () => Promise<R>): Promise<R>
+    {
+        const result = this.#queue.then(task);
+        this.#queue = result.catch(() => { /* the caller handles the error */ });
+        return result;
+    }
+    /**
+     * Wait for the transactions that changes have been recorded in to finish, so that their units have been added
+     * @returns an awaitable `Promise`
+     */
+    async #waitForPending()
+    {
+        await Promise.all(Array.from(this.#pending.values(), pending => pending.finished));
+    }
+    /**
+     * Create a unit from the images of one or more transactions
+     * @param name the name of the unit; defaults to the operation of its images, or `transaction` if they were made by several operations
+     * @param images the images of the unit
+     * @returns the new unit
+     */
+    #createUnit(name: string|undefined, images: RecordHistoryImage[]): RecordHistoryUnit
+    {
+        const operations = new Set(images.map(image => image.operation));
+        return { name: name ?? ((operations.size == 1) ? images[0].operation : 'transaction'), timestamp: Date.now(), images };
+    }
+    /**
+     * Add a new unit to undo, dropping the oldest units past the history's depth, and the units that could be redone
+     * @param unit the new unit
+     */
+    #addUnit(unit: RecordHistoryUnit)
+    {
+        this.#undoUnits.push(unit);
+        if(this.#undoUnits.length > this.#depth) { this.#undoUnits.splice(0, this.#undoUnits.length - this.#depth); }
+        this.#redoUnits = [];
+        // the history in memory stays usable if it can't be saved
+        this.#enqueue(() => this.#save()).catch(() => { /* the next save writes the whole history again */ });
+    }
+    /**
+     * Write one side of a unit's images to their stores, along with the history, in a single transaction.
+     * The images are written by their stores' `applyChanges`, so that they get new revisions, timestamps and search tokens, without being recorded again.
+     * @param unit the unit to apply
+     * @param side `before` to undo the unit, or `after` to redo it
+     * @returns an awaitable `Promise` that resolves once the transaction has committed
+     */
+    async #applyUnit(unit: RecordHistoryUnit, side: 'before'|'after')
+    {
+        // undoing restores the records in the opposite order to the one they were changed in
+        const images = (side == 'before') ? [...unit.images].reverse() : unit.images;
+        const storeNames = Array.from(new Set(images.map(image => image.storeName)));
+        const tableName = this.#setter.historyTableName;
+        const tables = (this.#isPersisted && tableName != null) ? [...storeNames, tableName] : storeNames;
+        try
+        {
+            await this.#setter.transaction(tables, async (transaction) =>
+            {
+                for(const storeName of storeNames)
+                {
+                    const changes = images.filter(image => image.storeName == storeName).map(image => ({ id: image.id, record: image[side] }));
+                    await transaction.store(storeName).applyChanges(changes);
+                }
+                await this.#save(transaction.transaction);
+            });
+        }
+        catch(error)
+        {
+            throw RecordSetterError.from(error, { operation: side == 'before' ? 'undo' : 'redo' });
+        }
+    }
+    /**
+     * Write the undo and redo stacks to the history table, if the history is persisted
+     * @param transaction the transaction to write them in; defaults to a new transaction on the history table
+     * @returns an awaitable `Promise`
+     */
+    async #save(transaction?: RecordBackendTransaction)
+    {
+        const tableName = this.#setter.historyTableName;
+        if(!this.#isPersisted || tableName == null) { return; }
+        const objectStore = (transaction ?? this.#setter.openTransaction([tableName])).objectStore(tableName);
+        const states: RecordHistoryState[] = [{ key: 'undo', units: this.#undoUnits }, { key: 'redo', units: this.#redoUnits }];
+        await Promise.all(states.map(state => this.#request(objectStore.put(state), 'put', state.key)));
+    }
+    /**
+     * Wrap a request to the history table, or a store, in a `Promise`
+     * @param request the request to wrap
+     * @param operation the name of the operation, for reporting errors
+     * @param key the key the operation was using, for reporting errors
+     * @returns a `Promise` that resolves with the request's result
+     */
+    #request<R>(request: RecordBackendRequest, operation: string, key?: unknown): Promise<R>
+    {
+        return new Promise<R>((resolve, reject) =>
+        {
+            request.onsuccess = () => { resolve(request.result as R); }
+            request.onerror = (event: Event) => { reject(RecordSetterError.from(event, { operation, key })); }
+        });
+    }
+}
+
+//#region Backends - The storage that databases are kept in
+
+/** The default `RecordSetterBackend`, which keeps databases in the browser's indexedDB storage */
+export class IndexedDBBackend implements RecordSetterBackend
+{
+    readonly isShared = true;
+
+    open(name: string, version?: number): RecordBackendOpenRequest { return indexedDB.open(name, version); }
+    deleteDatabase(name: string): RecordBackendRequest<undefined> { return indexedDB.deleteDatabase(name) as unknown as RecordBackendRequest<undefined>; }
+    cmp(first: unknown, second: unknown) { return indexedDB.cmp(first, second); }
+    only(value: unknown): RecordBackendKeyRange { return IDBKeyRange.only(value); }
+    bound(lower: unknown, upper: unknown, lowerOpen?: boolean, upperOpen?: boolean): RecordBackendKeyRange { return IDBKeyRange.bound(lower, upper, lowerOpen, upperOpen); }
+    lowerBound(lower: unknown, open?: boolean): RecordBackendKeyRange { return IDBKeyRange.lowerBound(lower, open); }
+    upperBound(upper: unknown, open?: boolean): RecordBackendKeyRange { return IDBKeyRange.upperBound(upper, open); }
+}
+
+/** A `RecordSetterBackend` that keeps databases in memory, for data that doesn't need to outlive the page, and for running outside of a browser.
+* Its databases follow indexedDB's semantics: values are cloned when they're stored and read, requests in a transaction run in order,
+* transactions whose scopes overlap run one at a time, and aborting a transaction rolls back its changes.
+* Each instance has its own databases, so connections only share data when they're opened with the same instance.
+* @example const data = await RecordSetter.activate({ name: 'example', version: 1, schema, backend: new MemoryBackend() });
+*/
+export class MemoryBackend implements RecordSetterBackend
+{
+    readonly isShared = false;
+
+    #databases: Map<string, MemoryDatabaseData> = new Map();
+
+    open(name: string, version?: number): RecordBackendOpenRequest
+    {
+        if(version !== undefined && (!Number.isInteger(version) || version < 1)) { throw new TypeError("The database version must be a positive integer."); }
+        const request = new MemoryOpenRequest();
+        setTimeout(() => { this.#open(request, name, version); }, 0);
+        return request;
+    }
+    deleteDatabase(name: string): RecordBackendRequest<undefined>
+    {
+        const request = new MemoryRequest<undefined>();
+        setTimeout(() =>
+        {
+            this.#databases.delete(name);
+            request.succeed(undefined);
+        }, 0);
+        return request;
+    }
+    cmp(first: unknown, second: unknown) { return MemoryKey.compare(first, second); }
+    only(value: unknown): RecordBackendKeyRange { return MemoryKeyRange.only(value); }
+    bound(lower: unknown, upper: unknown, lowerOpen?: boolean, upperOpen?: boolean): RecordBackendKeyRange { return MemoryKeyRange.bound(lower, upper, lowerOpen, upperOpen); }
+    lowerBound(lower: unknown, open?: boolean): RecordBackendKeyRange { return MemoryKeyRange.bound(lower, undefined, open, false); }
+    upperBound(upper: unknown, open?: boolean): RecordBackendKeyRange { return MemoryKeyRange.bound(undefined, upper, false, open); }
+
+    /**
+     * Open a connection to a database, running a `versionchange` transaction first if the database is being created or upgraded
+     * @param request the request to deliver the connection to
+     * @param name the name of the database
+     * @param version the version to open the database at; defaults to the current version
+     */
+    #open(request: MemoryOpenRequest, name: string, version?: number)
+    {
+        let data = this.#databases.get(name);
+        if(data == null)
+        {
+            data = { name, version: 0, stores: new Map(), transactions: [] };
+            this.#databases.set(name, data);
+        }
+
+        const oldVersion = data.version;
+        const newVersion = version ?? Math.max(oldVersion, 1);
+        if(newVersion < oldVersion)
+        {
+            request.fail(new DOMException(`The "${name}" database can't be opened at version ${newVersion}, because it is already at version ${oldVersion}.`, 'VersionError'));
+            return;
+        }
+
+        const database = new MemoryDatabase(data);
+        if(newVersion == oldVersion)
+        {
+            request.succeed(database);
+            return;
+        }
+
+        const transaction = database.upgrade(newVersion);
+        transaction.addEventListener('complete', () =>
+        {
+            request.transaction = null;
+            request.succeed(database);
+        });
+        transaction.addEventListener('abort', () =>
+        {
+            // a database that was being created is removed again, rather than left at version 0
+            if(oldVersion == 0) { this.#databases.delete(name); }
+            database.close();
+            request.transaction = null;
+            request.fail(new DOMException(`The upgrade of the "${name}" database was aborted.`, 'AbortError'));
+        });
+
+        request.result = database;
+        request.transaction = transaction;
+        if(!request.dispatch(new MemoryEvent('upgradeneeded', request, { oldVersion, newVersion })))
+        {
+            transaction.abort();
+        }
+    }
+}
+/** The data of a single object store in a `MemoryBackend` database */
+interface MemoryStoreData
+{
+    name: string;
+    keyPath: string|string[]|null;
+    /** The stored values, sorted by their keys */
+    records: { key: IDBValidKey, value: unknown }[];
+    indexes: Map<string, MemoryIndexData>;
+}
+/** The data of a single index in a `MemoryBackend` database */
+interface MemoryIndexData
+{
+    name: string;
+    keyPath: string|string[];
+    unique: boolean;
+    multiEntry: boolean;
+    /** The index's keys, sorted by key and then by the primary key of the value they index */
+    entries: { key: IDBValidKey, primaryKey: IDBValidKey }[];
+}
+/** The data of a `MemoryBackend` database, which is shared by each of its connections */
+interface MemoryDatabaseData
+{
+    name: string;
+    version: number;
+    stores: Map<string, MemoryStoreData>;
+    /** The transactions that haven't finished yet, in the order they were created */
+    transactions: MemoryTransaction[];
+}
+/** The parts of a `MemoryTransaction` that its object stores, indexes and cursors use to place requests */
+interface MemoryTransactionAccess
+{
+    readonly transaction: MemoryTransaction;
+    readonly data: MemoryDatabaseData;
+    /** Place a request, whose operation runs once the requests placed before it have finished */
+    queue<R>(operation: () => R, request?: MemoryRequest<R>): MemoryRequest<R>;
+    /** Throw if the transaction can't make changes */
+    checkWrite(): void;
+    /** Get an object store's data to change it, keeping a copy to roll back to if the transaction is aborted */
+    modify(storeName: string): MemoryStoreData;
+    /** Abort the transaction with an error */
+    abort(error: DOMException): void;
+}
+/** Functions for comparing and extracting keys the way indexedDB does */
+class MemoryKey
+{
+    /**
+     * Get the position of a key's type in indexedDB's key order; numbers are lowest, then dates, strings, binary keys and arrays
+     * @param key the key to get the type of
+     * @returns the position of the key's type, or `-1` if it isn't a valid key
+     */
+    static #rank(key: unknown): number
+    {
+        if(typeof key == 'number') { return isNaN(key) ? -1 : 0; }
+        if(key instanceof Date) { return isNaN(key.getTime()) ? -1 : 1; }
+        if(typeof key == 'string') { return 2; }
+        if(key instanceof ArrayBuffer || ArrayBuffer.isView(key)) { return 3; }
+        if(Array.isArray(key)) { return key.every(item => MemoryKey.#rank(item) != -1) ? 4 : -1; }
+        return -1;
+    }
+    /**
+     * Check whether a value can be used as a key
+     * @param key the value to check
+     * @returns `true` if the value is a valid key
+     */
+    static isValid(key: unknown): key is IDBValidKey
+    {
+        return MemoryKey.#rank(key) != -1;
+    }
+    /**
+     * Throw a `DataError` if a value can't be used as a key
+     * @param key the value to check
+     * @returns the key
+     */
+    static validate(key: unknown): IDBValidKey
+    {
+        if(!MemoryKey.isValid(key)) { throw new DOMException("The value is not a valid key.", 'DataError'); }
+        return key;
+    }
+    /**
+     * Compare two keys in indexedDB's key order
+     * @param first the first key
+     * @param second the second key
+     * @returns `-1` if the first key is lower, `1` if it is higher, and `0` if they're equal
+     */
+    static compare(first: unknown, second: unknown): number
+    {
+        const firstRank = MemoryKey.#rank(first);
+        const secondRank = MemoryKey.#rank(second);
+        if(firstRank == -1 || secondRank == -1) { throw new DOMException("The value is not a valid key.", 'DataError'); }
+        if(firstRank != secondRank) { return firstRank < secondRank ? -1 : 1; }
+
+        if(firstRank == 4)
+        {
+            const firstArray = first as unknown[];
+            const secondArray = second as unknown[];
+            for(let i = 0; i < Math.min(firstArray.length, secondArray.length); i++)
+            {
+                const comparison = MemoryKey.compare(firstArray[i], secondArray[i]);
+                if(comparison != 0) { return comparison; }
+            }
+            return Math.sign(firstArray.length - secondArray.length);
+        }
+        if(firstRank == 3)
+        {
+            const firstBytes = MemoryKey.#toBytes(first as ArrayBuffer|ArrayBufferView);
+            const secondBytes = MemoryKey.#toBytes(second as ArrayBuffer|ArrayBufferView);
+            for(let i = 0; i < Math.min(firstBytes.length, secondBytes.length); i++)
+            {
+                if(firstBytes[i] != secondBytes[i]) { return firstBytes[i] < secondBytes[i] ? -1 : 1; }
             }
-            indexDefinitionsArray.push({ name, keyPath, unique });
+            return Math.sign(firstBytes.length - secondBytes.length);
+        }
+
+        const firstValue = (first instanceof Date) ? first.getTime() : first as number|string;
+        const secondValue = (second instanceof Date) ? second.getTime() : second as number|string;
+        return (firstValue < secondValue) ? -1 : (firstValue > secondValue) ? 1 : 0;
+    }
+    /**
+     * Get the bytes of a binary key
+     * @param key an `ArrayBuffer` or a view of one
+     * @returns the key's bytes
+     */
+    static #toBytes(key: ArrayBuffer|ArrayBufferView)
+    {
+        return (key instanceof ArrayBuffer) ? new Uint8Array(key) : new Uint8Array(key.buffer, key.byteOffset, key.byteLength);
+    }
+    /**
+     * Throw a `SyntaxError` if a key path isn't made of property names separated by dots
+     * @param keyPath the key path, or an array of them for a compound key
+     */
+    static validatePath(keyPath: string|string[])
+    {
+        const paths = Array.isArray(keyPath) ? keyPath : [keyPath];
+        const isValid = (path: string) => path == '' || path.split('.').every(property => /^[\p{ID_Start}$_][\p{ID_Continue}$\u200C\u200D]*$/u.test(property));
+        if((Array.isArray(keyPath) && keyPath.length == 0) || !paths.every(isValid)) { throw new DOMException(`"${keyPath}" is not a valid key path.`, 'SyntaxError'); }
+    }
+    /**
+     * Read the value at a key path
+     * @param value the value to read from
+     * @param keyPath a dotted property path, or an array of them for a compound key
+     * @returns the value at the key path, or `undefined` if any part of it is missing
+     */
+    static extract(value: unknown, keyPath: string|string[]): unknown
+    {
+        if(Array.isArray(keyPath))
+        {
+            const keys = keyPath.map(path => MemoryKey.extract(value, path));
+            return keys.some(key => key === undefined) ? undefined : keys;
         }
-        // console.log(tableName, indexDefinitionsArray);
+        if(keyPath == '') { return value; }
 
-        const indexPromises: Promise<void>[] = [];
-        const objectStore = this.#database!.createObjectStore(name, {keyPath: indexDefinitionsArray[0].keyPath });
-        for(let i = 1; i < indexDefinitionsArray.length; i++)
+        let current = value;
+        for(const property of keyPath.split('.'))
+        {
+            if(current == null || typeof current != 'object' || !(property in current)) { return undefined; }
+            current = (current as { [key: string]: unknown })[property];
+        }
+        return current;
+    }
+    /**
+     * Get the keys that an index has for a value
+     * @param index the index's data
+     * @param value the stored value
+     * @returns the value's keys in the index; more than one for a `multiEntry` index of an array, and none if the value has no valid key
+     */
+    static indexKeys(index: MemoryIndexData, value: unknown): IDBValidKey[]
+    {
+        const key = MemoryKey.extract(value, index.keyPath);
+        if(index.multiEntry && Array.isArray(key))
         {
-            indexPromises.push(new Promise((resolve, reject) =>
+            const keys: IDBValidKey[] = [];
+            for(const item of key)
             {
-                const columnDefinition = indexDefinitionsArray[i];
-                objectStore.createIndex(columnDefinition.name, columnDefinition.keyPath, { unique: columnDefinition.unique, multiEntry: (!Array.isArray(columnDefinition.keyPath)) });
-                if(Array.isArray(columnDefinition.keyPath))
-                {
-                    for(let j = 0; j < columnDefinition.keyPath.length; j++)
-                    {
-                        const isUnique = columnDefinition.keyPath[j].startsWith('!') ? true : false;
-                        const pathName = isUnique ? columnDefinition.keyPath[j].substring(1) : columnDefinition.keyPath[j];
-                        objectStore.createIndex(pathName, pathName, {unique: isUnique, multiEntry: true });
-                    }
-                }
-                objectStore.transaction.oncomplete = (_event: Event) =>
-                {
-                    resolve();
-                }
-                objectStore.transaction.onerror = (event: Event) =>
-                {
-                    reject(event);
-                }
-            }));
+                if(MemoryKey.isValid(item) && !keys.some(existing => MemoryKey.compare(existing, item) == 0)) { keys.push(item); }
+            }
+            return keys;
         }
-
-        await Promise.all(indexPromises);
+        return MemoryKey.isValid(key) ? [key] : [];
     }
-
     /**
-     * Close the database connection and desconstruct the instance
-     * @returns a `boolean` to indicate success
+     * Find the first item in a sorted array that isn't lower than a target
+     * @param items the sorted items to search
+     * @param compare compares an item to the target
+     * @param exclusive find the first item that is higher than the target, instead
+     * @returns the index of the item, or the length of the array if there is none
      */
-    async close(): Promise<boolean>
+    static search<E>(items: E[], compare: (item: E) => number, exclusive: boolean = false)
     {
-        if(this.#database == null) 
-        { 
-            this.#isOpen = false;
-            return !this.#isOpen;
+        let low = 0;
+        let high = items.length;
+        while(low < high)
+        {
+            const middle = (low + high) >>> 1;
+            const comparison = compare(items[middle]);
+            if(comparison < 0 || (exclusive && comparison == 0)) { low = middle + 1; }
+            else { high = middle; }
         }
+        return low;
+    }
+    /**
+     * Find the stored value with a primary key
+     * @param store the object store's data
+     * @param key the primary key
+     * @returns the stored record, or `undefined` if there is none
+     */
+    static find(store: MemoryStoreData, key: IDBValidKey)
+    {
+        const record = store.records[MemoryKey.search(store.records, item => MemoryKey.compare(item.key, key))];
+        return (record != null && MemoryKey.compare(record.key, key) == 0) ? record : undefined;
+    }
+    /**
+     * Get the items in a sorted array whose keys are in a key range
+     * @param items the sorted items
+     * @param range the key range, or `null` for every item
+     * @param getKey reads the key of an item
+     * @returns the items in the range, in order
+     */
+    static inRange<E>(items: E[], range: MemoryKeyRange|null, getKey: (item: E) => IDBValidKey)
+    {
+        if(range == null) { return items.slice(); }
+        const start = (range.lower === undefined) ? 0 : MemoryKey.search(items, item => MemoryKey.compare(getKey(item), range.lower), range.lowerOpen);
+        const end = (range.upper === undefined) ? items.length : MemoryKey.search(items, item => MemoryKey.compare(getKey(item), range.upper), !range.upperOpen);
+        return items.slice(start, Math.max(start, end));
+    }
+}
+/** A range of keys in a `MemoryBackend` database */
+class MemoryKeyRange implements RecordBackendKeyRange
+{
+    readonly lower: IDBValidKey|undefined;
+    readonly upper: IDBValidKey|undefined;
+    readonly lowerOpen: boolean;
+    readonly upperOpen: boolean;
 
-        this.#database.close();
+    constructor(lower: IDBValidKey|undefined, upper: IDBValidKey|undefined, lowerOpen: boolean, upperOpen: boolean)
+    {
+        this.lower = lower;
+        this.upper = upper;
+        this.lowerOpen = lowerOpen;
+        this.upperOpen = upperOpen;
+    }
 
-        this.#isOpen = false;
-        return !this.#isOpen;
+    includes(key: unknown)
+    {
+        MemoryKey.validate(key);
+        if(this.lower !== undefined)
+        {
+            const comparison = MemoryKey.compare(key, this.lower);
+            if(comparison < 0 || (comparison == 0 && this.lowerOpen)) { return false; }
+        }
+        if(this.upper !== undefined)
+        {
+            const comparison = MemoryKey.compare(key, this.upper);
+            if(comparison > 0 || (comparison == 0 && this.upperOpen)) { return false; }
+        }
+        return true;
     }
+
     /**
-     * Closes the current database instance, if it is open, and then deletes the database.
-     * @returns a `boolean` to indicate success
+     * Create a key range that only includes a single key
+     * @param value the key to include
+     * @returns a new `MemoryKeyRange`
      */
-    async delete(): Promise<boolean>
-    {        
-        if(this.#isOpen)
+    static only(value: unknown)
+    {
+        const key = MemoryKey.validate(value);
+        return new MemoryKeyRange(key, key, false, false);
+    }
+    /**
+     * Create a key range between two keys; either bound can be `undefined` to leave that end of the range open
+     * @param lower the lower bound
+     * @param upper the upper bound
+     * @param lowerOpen exclude the lower bound from the range
+     * @param upperOpen exclude the upper bound from the range
+     * @returns a new `MemoryKeyRange`
+     */
+    static bound(lower: unknown, upper: unknown, lowerOpen: boolean = false, upperOpen: boolean = false)
+    {
+        const lowerKey = (lower === undefined) ? undefined : MemoryKey.validate(lower);
+        const upperKey = (upper === undefined) ? undefined : MemoryKey.validate(upper);
+        if(lowerKey !== undefined && upperKey !== undefined)
         {
-            await this.close();
+            const comparison = MemoryKey.compare(lowerKey, upperKey);
+            if(comparison > 0 || (comparison == 0 && (lowerOpen || upperOpen))) { throw new DOMException("The lower bound of the key range is higher than its upper bound.", 'DataError'); }
         }
+        return new MemoryKeyRange(lowerKey, upperKey, lowerOpen, upperOpen);
+    }
+    /**
+     * Convert the query of a request to a key range
+     * @param query a key or a `MemoryKeyRange`
+     * @returns the key range, or `null` if there is no query
+     */
+    static from(query: RecordBackendQuery|null|undefined)
+    {
+        if(query == null) { return null; }
+        return (query instanceof MemoryKeyRange) ? query : MemoryKeyRange.only(query);
+    }
+}
+/** An event dispatched by the objects of a `MemoryBackend` database */
+class MemoryEvent
+{
+    readonly type: string;
+    readonly target: unknown;
+    readonly oldVersion?: number;
+    readonly newVersion?: number|null;
+    defaultPrevented: boolean = false;
 
-        return this.#deleteDatabase();
+    constructor(type: string, target: unknown, versions?: { oldVersion: number, newVersion: number|null })
+    {
+        this.type = type;
+        this.target = target;
+        this.oldVersion = versions?.oldVersion;
+        this.newVersion = versions?.newVersion;
+    }
+
+    preventDefault() { this.defaultPrevented = true; }
+    stopPropagation() { /* events don't propagate past the transaction */ }
+}
+/** The base of the `MemoryBackend` objects that dispatch events, to their `on` handler and then to their listeners */
+class MemoryEventTarget
+{
+    #listeners: Map<string, Set<(event: Event) => void>> = new Map();
+
+    addEventListener(type: string, listener: (event: Event) => void)
+    {
+        const listeners = this.#listeners.get(type) ?? new Set();
+        listeners.add(listener);
+        this.#listeners.set(type, listeners);
+    }
+    removeEventListener(type: string, listener: (event: Event) => void)
+    {
+        this.#listeners.get(type)?.delete(listener);
     }
     /**
-     * Deletes the database.
-     * @returns a `boolean` to indicate success
+     * Call the `on` handler, and then the listeners, for an event
+     * @param event the event to dispatch
+     * @returns `false` if any of them threw, so that the request's transaction can be aborted
      */
-    #deleteDatabase()
+    dispatch(event: MemoryEvent)
     {
-        return new Promise<boolean>((resolve) =>
+        const handler = (this as unknown as { [key: string]: unknown })[`on${event.type}`];
+        const listeners = [...(typeof handler == 'function' ? [handler as (event: Event) => void] : []), ...(this.#listeners.get(event.type) ?? [])];
+        let isHandled = true;
+        for(const listener of listeners)
         {
-            if(this.#database == null || this.#isInitialized != true) 
-            { 
-                throw new Error("Unable to delete an uninitialized database.");
-            }
-            const deleteRequest = indexedDB.deleteDatabase(this.#database!.name);
-            deleteRequest.onsuccess = () =>
-            {
-                this.#database = undefined;
-                this.#isInitialized = false;
-                resolve(true);
-            };
-            deleteRequest.onerror = (error: unknown) =>
+            try { listener.call(this, event as unknown as Event); }
+            catch(error)
             {
-                console.error(error);
-                resolve(false);
-            };
-        });
+                // like an uncaught exception in an IndexedDB handler, the error is reported without interrupting the dispatch
+                queueMicrotask(() => { throw error; });
+                isHandled = false;
+            }
+        }
+        return isHandled;
     }
-    
+}
+/** A request made to a `MemoryBackend` database */
+class MemoryRequest<R = unknown> extends MemoryEventTarget implements RecordBackendRequest<R>
+{
+    result: R = undefined as R;
+    error: DOMException|null = null;
+    readyState: 'pending'|'done' = 'pending';
+    onsuccess: ((event: Event) => void)|null = null;
+    onerror: ((event: Event) => void)|null = null;
+
     /**
-     * Open new transaction in the managed database
-     * @param tables the tables to include in this transaction scope
-     * @param transactionMode the `IDBTransactionMode` the transaction will operate in
-     * @returns a new transaction on the managed database in the target mode
+     * Deliver the request's result to its `success` handlers
+     * @param result the result of the request
+     * @returns `false` if any of the handlers threw
      */
-    openTransaction(tables: string[], transactionMode: IDBTransactionMode = 'readwrite')
+    succeed(result: R)
+    {
+        this.readyState = 'done';
+        this.result = result;
+        this.error = null;
+        return this.dispatch(new MemoryEvent('success', this));
+    }
+    /**
+     * Deliver the request's error to its `error` handlers
+     * @param error the error the request failed with
+     * @returns the dispatched event, to check whether the error was handled with `preventDefault`
+     */
+    fail(error: DOMException)
+    {
+        this.readyState = 'done';
+        this.result = undefined as R;
+        this.error = error;
+        const event = new MemoryEvent('error', this);
+        this.dispatch(event);
+        return event;
+    }
+}
+/** A request to open a `MemoryBackend` database */
+class MemoryOpenRequest extends MemoryRequest<RecordBackendDatabase> implements RecordBackendOpenRequest
+{
+    transaction: MemoryTransaction|null = null;
+    onupgradeneeded: ((event: IDBVersionChangeEvent) => void)|null = null;
+    onblocked: ((event: IDBVersionChangeEvent) => void)|null = null;
+}
+/** A list of object store or index names, in ascending order */
+class MemoryNameList implements RecordBackendNameList
+{
+    [index: number]: string;
+    readonly length: number;
+
+    constructor(names: Iterable<string>)
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        return this.#database.transaction(tables, transactionMode);
+        const sorted = Array.from(names).sort();
+        for(let i = 0; i < sorted.length; i++) { this[i] = sorted[i]; }
+        this.length = sorted.length;
     }
 
-    //#endregion
+    contains(name: string) { return Array.prototype.includes.call(this, name); }
+    item(index: number) { return this[index] ?? null; }
+    [Symbol.iterator]() { return Array.prototype[Symbol.iterator].call(this) as IterableIterator<string>; }
+}
+/** A connection to a `MemoryBackend` database */
+class MemoryDatabase implements RecordBackendDatabase
+{
+    readonly name: string;
+    version: number;
 
-    //#region Stores - Manage Records
+    #data: MemoryDatabaseData;
+    #isClosed: boolean = false;
+    #upgrade: MemoryTransaction|null = null;
+
+    constructor(data: MemoryDatabaseData)
+    {
+        this.#data = data;
+        this.name = data.name;
+        this.version = data.version;
+    }
+
+    get objectStoreNames() { return new MemoryNameList(this.#data.stores.keys()); }
 
     /**
-     * Add a store to be managed by this `RecordSetter` instance
-     * @param storeName the name of the store to add
-     * @param tables the names of all tables that this store will share transactions with.  
-     * Transactions are shared in `Promise` scopes, so most `async`/`await` calls that will
-     * unite record data from different tables require shared scopes.
-     * @param options `RecordStoreOptions` values for the new `RecordStore` instance
-     * @returns a new `RecordStore` instance
+     * Start the `versionchange` transaction that upgrades the database to a new version
+     * @param version the version to upgrade to
+     * @returns the `versionchange` transaction
      */
-    addStore<T extends RecordBase = RecordBase, R extends RecordStore<T> = RecordStore<T>>(storeName: string, tables?: string[], options?: RecordStoreOptions)
+    upgrade(version: number)
+    {
+        const oldVersion = this.version;
+        const transaction = new MemoryTransaction(this.#data, [], 'versionchange');
+        this.#data.version = version;
+        this.version = version;
+        this.#upgrade = transaction;
+        transaction.addEventListener('complete', () => { this.#upgrade = null; });
+        transaction.addEventListener('abort', () =>
+        {
+            this.#upgrade = null;
+            this.version = oldVersion;
+        });
+        return transaction;
+    }
+    transaction(storeNames: string|string[], mode: IDBTransactionMode = 'readonly')
     {
-        if(this.stores.get(storeName) != null) { throw new Error("Cannot add store with same name as existing store."); }
+        if(this.#isClosed) { throw new DOMException("The database connection is closed.", 'InvalidStateError'); }
+        if(this.#upgrade != null) { throw new DOMException("Transactions can't be opened while the database is being upgraded.", 'InvalidStateError'); }
+        if(mode != 'readonly' && mode != 'readwrite') { throw new TypeError(`"${mode}" is not a valid transaction mode.`); }
 
-        this.stores.set(storeName, new RecordStore<T>(this.#database!, storeName, tables ?? [storeName], options));
-        return this.stores.get(storeName) as R;
+        const names = Array.from(new Set(Array.isArray(storeNames) ? storeNames : [storeNames]));
+        if(names.length == 0) { throw new DOMException("A transaction must include at least one object store.", 'InvalidAccessError'); }
+        const missingName = names.find(name => !this.#data.stores.has(name));
+        if(missingName != null) { throw new DOMException(`The "${missingName}" object store was not found.`, 'NotFoundError'); }
+
+        return new MemoryTransaction(this.#data, names, mode);
+    }
+    createObjectStore(name: string, options?: IDBObjectStoreParameters)
+    {
+        const transaction = this.#checkUpgrade();
+        if(this.#data.stores.has(name)) { throw new DOMException(`The "${name}" object store already exists.`, 'ConstraintError'); }
+        if(options?.autoIncrement) { throw new DOMException("Generated keys are not supported by the memory backend.", 'NotSupportedError'); }
+        if(options?.keyPath != null) { MemoryKey.validatePath(options.keyPath); }
+
+        this.#data.stores.set(name, { name, keyPath: options?.keyPath ?? null, records: [], indexes: new Map() });
+        return transaction.objectStore(name);
+    }
+    deleteObjectStore(name: string)
+    {
+        this.#checkUpgrade();
+        if(!this.#data.stores.has(name)) { throw new DOMException(`The "${name}" object store was not found.`, 'NotFoundError'); }
+        this.#data.stores.delete(name);
+    }
+    close()
+    {
+        this.#isClosed = true;
     }
 
     /**
-     * Get a `RecordStore` that is managed by this instance.
-     * @template T extends `RecordBase`
-     * @param name the name of the store to get
-     * @returns a `RecordStore` instance that manages `Record`s of type `T`.
+     * Throw unless the database is being upgraded; object stores can only be created and deleted in a `versionchange` transaction
+     * @returns the `versionchange` transaction
      */
-    getStore<T extends RecordBase = RecordBase, R extends RecordStore<T> = RecordStore<T>>(name: string)
+    #checkUpgrade()
     {
-        const store = this.stores.get(name);
-        if(store == null)
+        if(this.#upgrade == null) { throw new DOMException("Object stores can only be changed while the database is being upgraded.", 'InvalidStateError'); }
+        return this.#upgrade;
+    }
+}
+/** A transaction in a `MemoryBackend` database.
+* Requests run one at a time, in the order they were placed, and the transaction commits once it has no more requests
+* and a task has passed without any being placed. */
+class MemoryTransaction extends MemoryEventTarget implements RecordBackendTransaction
+{
+    readonly mode: IDBTransactionMode;
+    error: DOMException|null = null;
+    oncomplete: ((event: Event) => void)|null = null;
+    onabort: ((event: Event) => void)|null = null;
+    onerror: ((event: Event) => void)|null = null;
+
+    #data: MemoryDatabaseData;
+    #scope: string[];
+    #access: MemoryTransactionAccess;
+    #requests: { request: MemoryRequest, operation: () => unknown }[] = [];
+    #state: 'waiting'|'active'|'finished' = 'waiting';
+    #isProcessing: boolean = false;
+    #isCommitScheduled: boolean = false;
+    #isCommitRequested: boolean = false;
+    #snapshots: Map<string, MemoryStoreData> = new Map();
+    #versionSnapshot?: { version: number, stores: Map<string, MemoryStoreData> };
+
+    constructor(data: MemoryDatabaseData, scope: string[], mode: IDBTransactionMode)
+    {
+        super();
+        this.#data = data;
+        this.#scope = scope;
+        this.mode = mode;
+        if(mode == 'versionchange')
         {
-            throw new Error(`Store could not be found by name: ${name}`);
+            this.#versionSnapshot = { version: data.version, stores: new Map(Array.from(data.stores, ([name, store]) => [name, MemoryTransaction.#copyStore(store)])) };
         }
-        return store as R;
+        this.#access = {
+            transaction: this,
+            data,
+            queue: <R>(operation: () => R, request?: MemoryRequest<R>) => this.#queue(operation, request ?? new MemoryRequest<R>()),
+            checkWrite: () => this.#checkWrite(),
+            modify: (storeName: string) => this.#modify(storeName),
+            abort: (error: DOMException) => { if(this.#state != 'finished') { this.#abort(error); } },
+        };
+
+        data.transactions.push(this);
+        MemoryTransaction.#startWaiting(data);
+    }
+
+    get objectStoreNames() { return new MemoryNameList(this.mode == 'versionchange' ? this.#data.stores.keys() : this.#scope); }
+
+    objectStore(name: string)
+    {
+        if(this.#state == 'finished') { throw new DOMException("The transaction has finished.", 'InvalidStateError'); }
+        if(!this.objectStoreNames.contains(name)) { throw new DOMException(`The "${name}" object store is not in the transaction's scope.`, 'NotFoundError'); }
+        return new MemoryObjectStore(this.#access, name);
     }
+    abort()
+    {
+        if(this.#state == 'finished') { throw new DOMException("The transaction has already finished.", 'InvalidStateError'); }
+        this.#abort(null);
+    }
+    commit()
+    {
+        if(this.#state == 'finished') { throw new DOMException("The transaction has already finished.", 'InvalidStateError'); }
+        this.#isCommitRequested = true;
+        this.#process();
+    }
+
     /**
-     * Get a default `RecordStore` instance that manages key/value pairs in the database
-     * @returns the KeyValue `RecordStore` instance
+     * Place a request; it runs once every request placed before it has finished
+     * @param operation reads or changes the database's data, and returns the request's result
+     * @param request the request to deliver the result to
+     * @returns the request
      */
-    async getKeyValueStore()
+    #queue<R>(operation: () => R, request: MemoryRequest<R>)
     {
-        let store = this.stores.get(this.#keyValueTableName);
-        if(store == null)
+        if(this.#state == 'finished' || this.#isCommitRequested) { throw new DOMException("The transaction has finished.", 'TransactionInactiveError'); }
+        request.readyState = 'pending';
+        this.#requests.push({ request, operation });
+        this.#process();
+        return request;
+    }
+    /**
+     * Run the next request, if the transaction has started; once there are none left, commit
+     */
+    #process()
+    {
+        if(this.#state != 'active' || this.#isProcessing) { return; }
+        if(this.#requests.length == 0)
         {
-            store = await this.addStore(this.#keyValueTableName);
+            this.#scheduleCommit();
+            return;
         }
-        if(store == null) { throw new Error('Unable to create a key-value store.'); }
 
-        return store;
+        // each request runs in its own microtask, so that the promises its handlers
+        // resolve can place more requests before the transaction commits
+        this.#isProcessing = true;
+        queueMicrotask(() =>
+        {
+            this.#isProcessing = false;
+            if(this.#state != 'active') { return; }
+            const next = this.#requests.shift()!;
+            this.#run(next.request, next.operation);
+            this.#process();
+        });
     }
+    /**
+     * Run a request's operation, and deliver its result or error
+     * @param request the request
+     * @param operation the request's operation
+     */
+    #run(request: MemoryRequest, operation: () => unknown)
+    {
+        let result: unknown;
+        try
+        {
+            result = operation();
+        }
+        catch(error)
+        {
+            const exception = (error instanceof DOMException) ? error : new DOMException(String(error), 'UnknownError');
+            const event = request.fail(exception);
+            // errors that aren't handled with preventDefault bubble to the transaction, and then abort it
+            if(!event.defaultPrevented) { this.dispatch(event); }
+            if(!event.defaultPrevented && this.#state != 'finished') { this.#abort(exception); }
+            return;
+        }
 
-    //#endregion
-    
-    
-
-    //#region Data - Key/Value management
+        if(!request.succeed(result) && this.#state != 'finished')
+        {
+            this.#abort(new DOMException("A request's success handler threw an exception.", 'AbortError'));
+        }
+    }
+    /**
+     * Commit once a task has passed without any requests being placed, or right away if `commit` was called
+     */
+    #scheduleCommit()
+    {
+        if(this.#isCommitRequested)
+        {
+            queueMicrotask(() => { if(this.#state == 'active' && this.#requests.length == 0 && !this.#isProcessing) { this.#commit(); } });
+            return;
+        }
+        if(this.#isCommitScheduled) { return; }
 
+        this.#isCommitScheduled = true;
+        setTimeout(() =>
+        {
+            this.#isCommitScheduled = false;
+            if(this.#state == 'active' && this.#requests.length == 0 && !this.#isProcessing) { this.#commit(); }
+        }, 0);
+    }
+    #commit()
+    {
+        this.#finish();
+        this.dispatch(new MemoryEvent('complete', this));
+    }
     /**
-     * Get a value from the Key/Value `RecordStore`
-     * @param key the key to match
-     * @returns the value associated with the target key
+     * Roll back every change the transaction has made, fail its pending requests, and report the abort
+     * @param error the error that caused the abort, or `null` if it was aborted by calling `abort`
      */
-    async getValue<T extends string|number|boolean|Blob|null|undefined = undefined>(key: string): Promise<T|null>
+    #abort(error: DOMException|null)
     {
-        return this.getData(this.#keyValueTableName, key);
+        this.error = error;
+        if(this.#versionSnapshot != null)
+        {
+            this.#data.version = this.#versionSnapshot.version;
+            this.#data.stores = this.#versionSnapshot.stores;
+        }
+        for(const [name, store] of this.#snapshots) { this.#data.stores.set(name, store); }
+
+        const pending = this.#requests;
+        this.#finish();
+        queueMicrotask(() =>
+        {
+            for(const { request } of pending) { request.fail(new DOMException("The transaction was aborted.", 'AbortError')); }
+            this.dispatch(new MemoryEvent('abort', this));
+        });
     }
     /**
-     * Get values from the Key/Value `RecordStore`
-     * @param keys the keys to match
-     * @returns the values associated with the target keys
+     * Mark the transaction as finished, and start any transactions that were waiting for it
      */
-    async getValues<T extends string|number|boolean|Blob|null|undefined = undefined>(keys: string[]): Promise<(T|null)[]>
+    #finish()
+    {
+        this.#state = 'finished';
+        this.#requests = [];
+        this.#snapshots.clear();
+        const index = this.#data.transactions.indexOf(this);
+        if(index != -1) { this.#data.transactions.splice(index, 1); }
+        MemoryTransaction.#startWaiting(this.#data);
+    }
+    #checkWrite()
+    {
+        if(this.#state == 'finished') { throw new DOMException("The transaction has finished.", 'TransactionInactiveError'); }
+        if(this.mode == 'readonly') { throw new DOMException("The transaction is read-only.", 'ReadOnlyError'); }
+    }
+    #modify(storeName: string)
     {
-        return this.getDataValues(this.#keyValueTableName, keys);
+        const store = this.#data.stores.get(storeName);
+        if(store == null) { throw new DOMException(`The "${storeName}" object store has been deleted.`, 'InvalidStateError'); }
+        if(this.#versionSnapshot == null && !this.#snapshots.has(storeName)) { this.#snapshots.set(storeName, MemoryTransaction.#copyStore(store)); }
+        return store;
     }
     /**
-     * Get all values from the Key/Value `RecordStore`
-     * @returns an array of the values
+     * Check whether the transaction can start; transactions wait for every earlier transaction whose scope overlaps theirs,
+     * unless both of them are read-only, and `versionchange` transactions wait for every earlier transaction
+     * @returns `true` if the transaction can start
      */
-    async getAllValues<T extends string|number|boolean|Blob|null|undefined = undefined>(): Promise<(T|null)[]>
+    #canStart()
     {
-        return this.getAllData<T>(this.#keyValueTableName);
+        const index = this.#data.transactions.indexOf(this);
+        for(let i = 0; i < index; i++)
+        {
+            const other = this.#data.transactions[i];
+            if(this.mode == 'readonly' && other.mode == 'readonly') { continue; }
+            if(this.mode == 'versionchange' || other.mode == 'versionchange') { return false; }
+            if(other.#scope.some(name => this.#scope.includes(name))) { return false; }
+        }
+        return true;
     }
     /**
-     * Set a value in the Key/Value `RecordStore`
-     * @param key the key to assign a value to
-     * @param value the value to assign to the target key
+     * Start every waiting transaction in a database that can start
+     * @param data the database's data
      */
-    async setValue<T extends string|number|boolean|Blob|null|undefined>(key: string, value: T)
+    static #startWaiting(data: MemoryDatabaseData)
     {
-        await this.setData(this.#keyValueTableName, key, value);
+        for(const transaction of data.transactions.slice())
+        {
+            if(transaction.#state != 'waiting' || !transaction.#canStart()) { continue; }
+            transaction.#state = 'active';
+            transaction.#process();
+        }
     }
     /**
-     * Set values in the Key/Value `RecordStore`
-     * @param items an array of key/value pairs defining the data to set
+     * Copy an object store's data, to roll back to
+     * @param store the object store's data
+     * @returns a copy whose arrays can be restored after the original's have been changed
      */
-    async setValues<T extends string|number|boolean|Blob|null|undefined>(items: {key: string, value: T }[])
+    static #copyStore(store: MemoryStoreData): MemoryStoreData
     {
-        await this.setDataValues(this.#keyValueTableName, items);
+        const indexes = new Map(Array.from(store.indexes, ([name, index]) => [name, { ...index, entries: index.entries.slice() }]));
+        return { ...store, records: store.records.slice(), indexes };
     }
+}
+/** An object store in the scope of a `MemoryBackend` transaction */
+class MemoryObjectStore implements RecordBackendObjectStore
+{
+    readonly name: string;
 
-    // data sets direct values, based on keys
-    // instead of storing a managed object 
-    // type (records). This allows for simple
-    // key-value storage alongside record storage;
-    // getting and setting data is limited to
-    // directly handling data in a single table;
+    #access: MemoryTransactionAccess;
 
-    /**
-     * Get all data stored in the target `IDBObjectStore`
-     * @param storeName the name of the `IDBObjectStore` to collect data from
-     * @returns an array of all values stored in the target `IDBObjectStore`
-     */
-    async getAllData<T extends string|number|boolean|Blob|null|undefined = undefined>(storeName: string): Promise<(T|null)[]>
+    constructor(access: MemoryTransactionAccess, name: string)
+    {
+        this.#access = access;
+        this.name = name;
+    }
+
+    get keyPath() { return this.#store().keyPath; }
+    get indexNames() { return new MemoryNameList(this.#store().indexes.keys()); }
+
+    count(query?: RecordBackendQuery|null)
+    {
+        const range = MemoryKeyRange.from(query);
+        return this.#access.queue(() => MemoryKey.inRange(this.#store().records, range, item => item.key).length);
+    }
+    get(query: RecordBackendQuery)
+    {
+        const range = MemoryKeyRange.from(query);
+        if(range == null) { throw new DOMException("A key or key range is required.", 'DataError'); }
+        return this.#access.queue(() =>
+        {
+            const [record] = MemoryKey.inRange(this.#store().records, range, item => item.key);
+            return (record == null) ? undefined : structuredClone(record.value);
+        });
+    }
+    getAll(query?: RecordBackendQuery|null, count?: number)
+    {
+        const range = MemoryKeyRange.from(query);
+        return this.#access.queue(() => MemoryKey.inRange(this.#store().records, range, item => item.key).slice(0, count || undefined).map(item => structuredClone(item.value)));
+    }
+    getAllKeys(query?: RecordBackendQuery|null, count?: number)
+    {
+        const range = MemoryKeyRange.from(query);
+        return this.#access.queue(() => MemoryKey.inRange(this.#store().records, range, item => item.key).slice(0, count || undefined).map(item => item.key));
+    }
+    openCursor(query?: RecordBackendQuery|null, direction: IDBCursorDirection = 'next')
+    {
+        return new MemoryCursor(this.#access, this, null, MemoryKeyRange.from(query), direction, true).open() as MemoryRequest<RecordBackendCursorWithValue|null>;
+    }
+    openKeyCursor(query?: RecordBackendQuery|null, direction: IDBCursorDirection = 'next')
+    {
+        return new MemoryCursor(this.#access, this, null, MemoryKeyRange.from(query), direction, false).open() as MemoryRequest<RecordBackendCursor|null>;
+    }
+    add(value: unknown, key?: IDBValidKey)
+    {
+        return this.#write(value, key, true);
+    }
+    put(value: unknown, key?: IDBValidKey)
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName], 'readonly');
-        transaction.onerror = (event: Event) => { throw event; }
-        const value = await new Promise<(T|null)[]>((resolve, reject) =>
+        return this.#write(value, key, false);
+    }
+    delete(query: RecordBackendQuery)
+    {
+        this.#access.checkWrite();
+        const range = MemoryKeyRange.from(query);
+        if(range == null) { throw new DOMException("A key or key range is required.", 'DataError'); }
+        return this.#access.queue(() =>
         {
-            const objectStore = transaction.objectStore(storeName);
-            const request = objectStore.getAll();
-            request.onsuccess = (event: Event) =>
+            const store = this.#access.modify(this.name);
+            store.records = store.records.filter(item => !range.includes(item.key));
+            for(const index of store.indexes.values())
             {
-                const record = (event.target as unknown as { result: { value: T[] } }).result;
-                const result = record == null ? [] : record.value;
-                resolve(result);
+                index.entries = index.entries.filter(entry => !range.includes(entry.primaryKey));
             }
-            request.onerror = (event: Event) => { reject(event); }
+            return undefined;
         });
-        return value;
     }
-    /**
-     * Get the value of an entry in the target `IDBObjectStore`, by key
-     * @param storeName the name of the `IDBObjectStore` to get the value from
-     * @param key the key to match 
-     * @returns the value assigned to the matching key, or null
-     */
-    async getData<T extends string|number|boolean|Blob|null|undefined = undefined>(storeName: string, key: string): Promise<T|null>
+    clear()
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName], 'readonly');
-        transaction.onerror = (event: Event) => { throw event; }
-        const value = await new Promise<T|null>((resolve, reject) =>
+        this.#access.checkWrite();
+        return this.#access.queue(() =>
         {
-            const objectStore = transaction.objectStore(storeName);
-            const request = objectStore.get(key);
-            request.onsuccess = (event: Event) =>
-            {
-                const record = (event.target as unknown as { result: { value: T } }).result;
-                const result = record == null ? null : record.value;
-                resolve(result);
-            }
-            request.onerror = (event: Event) => { reject(event); }
+            const store = this.#access.modify(this.name);
+            store.records = [];
+            for(const index of store.indexes.values()) { index.entries = []; }
+            return undefined;
         });
-        return value;
     }
+    index(name: string)
+    {
+        if(!this.#store().indexes.has(name)) { throw new DOMException(`The "${name}" index was not found.`, 'NotFoundError'); }
+        return new MemoryIndex(this.#access, this, name);
+    }
+    createIndex(name: string, keyPath: string|string[], options?: IDBIndexParameters)
+    {
+        if(this.#access.transaction.mode != 'versionchange') { throw new DOMException("Indexes can only be created while the database is being upgraded.", 'InvalidStateError'); }
+        const store = this.#store();
+        if(store.indexes.has(name)) { throw new DOMException(`The "${name}" index already exists.`, 'ConstraintError'); }
+        MemoryKey.validatePath(keyPath);
+        if(options?.multiEntry && Array.isArray(keyPath)) { throw new DOMException("A multiEntry index can't have a compound key path.", 'InvalidAccessError'); }
+
+        const index: MemoryIndexData = { name, keyPath, unique: options?.unique ?? false, multiEntry: options?.multiEntry ?? false, entries: [] };
+        try
+        {
+            for(const record of store.records) { MemoryObjectStore.#addIndexEntries(index, record.key, MemoryKey.indexKeys(index, record.value)); }
+        }
+        catch(error)
+        {
+            // like indexedDB, an index that can't be built aborts the upgrade, rather than failing createIndex
+            queueMicrotask(() => { this.#access.abort(error as DOMException); });
+        }
+        store.indexes.set(name, index);
+        return new MemoryIndex(this.#access, this, name);
+    }
+    deleteIndex(name: string)
+    {
+        if(this.#access.transaction.mode != 'versionchange') { throw new DOMException("Indexes can only be deleted while the database is being upgraded.", 'InvalidStateError'); }
+        if(!this.#store().indexes.delete(name)) { throw new DOMException(`The "${name}" index was not found.`, 'NotFoundError'); }
+    }
+
     /**
-     * Get the values of the entries in the target `IDBObjectStore`, by keys
-     * @param storeName the name of the `IDBObjectStore` to get the values from
-     * @param keys the keys to match 
-     * @returns an array of the values assigned to the matching keys, or null
+     * Store a value; the value is cloned, and its key is checked, when the request is placed
+     * @param value the value to store
+     * @param key the value's key, for object stores without a key path
+     * @param isAdd fail with a `ConstraintError`, instead of replacing, if a value with the same key is already stored
+     * @returns the request, whose result is the value's key
      */
-    async getDataValues<T extends string|number|boolean|Blob|null|undefined = undefined>(storeName: string, keys: string[]):  Promise<(T|null)[]>
+    #write(value: unknown, key: IDBValidKey|undefined, isAdd: boolean)
     {
-        const transaction = this.openTransaction([storeName], 'readonly');
-        const promises: Promise<T|null>[] = [];
-        for(let i = 0; i < keys.length; i++)
+        this.#access.checkWrite();
+        const keyPath = this.#store().keyPath;
+        if(keyPath != null && key !== undefined) { throw new DOMException("A key can't be provided for an object store with a key path.", 'DataError'); }
+        const primaryKey = MemoryKey.validate((keyPath == null) ? key : MemoryKey.extract(value, keyPath));
+        const clone = structuredClone(value);
+
+        return this.#access.queue(() =>
         {
-            const id = keys[i];
-            promises.push(new Promise<T|null>((resolve, reject) =>
+            const store = this.#access.modify(this.name);
+            const position = MemoryKey.search(store.records, item => MemoryKey.compare(item.key, primaryKey));
+            const isExisting = position < store.records.length && MemoryKey.compare(store.records[position].key, primaryKey) == 0;
+            if(isExisting && isAdd) { throw new DOMException(`A value with the same key is already stored in the "${this.name}" object store.`, 'ConstraintError'); }
+
+            // every unique index is checked before anything is changed, so a failed request leaves no trace
+            const indexKeys = new Map<MemoryIndexData, IDBValidKey[]>();
+            for(const index of store.indexes.values())
             {
-                const objectStore = transaction.objectStore(storeName);
-                const request = objectStore.get(id);
-                request.onsuccess = (event: Event) =>
+                const keys = MemoryKey.indexKeys(index, clone);
+                if(index.unique && keys.some(indexKey => MemoryObjectStore.#isTaken(index, indexKey, primaryKey)))
                 {
-                    const record = (event.target as unknown as { result: { value: T } }).result;
-                    resolve(record == null ? null : record.value);
+                    throw new DOMException(`The value breaks the unique "${index.name}" index of the "${this.name}" object store.`, 'ConstraintError');
                 }
-                request.onerror = (event: Event) => { reject(event); }
-            }));
-        }
+                indexKeys.set(index, keys);
+            }
 
-        const records = await Promise.all(promises);
-        return records;
+            if(isExisting)
+            {
+                store.records[position] = { key: primaryKey, value: clone };
+                for(const index of store.indexes.values())
+                {
+                    index.entries = index.entries.filter(entry => MemoryKey.compare(entry.primaryKey, primaryKey) != 0);
+                }
+            }
+            else
+            {
+                store.records.splice(position, 0, { key: primaryKey, value: clone });
+            }
+            for(const [index, keys] of indexKeys) { MemoryObjectStore.#addIndexEntries(index, primaryKey, keys); }
+            return primaryKey;
+        });
     }
     /**
-     * Set the value of an entry in the target `IDBObjectStore`, by key
-     * @param storeName the name of the `IDBObjectStore` to set the values in
-     * @param key the key to match 
-     * @param value the value to assign to the matching key
+     * Get this object store's data
+     * @returns the data, as it is now
      */
-    async setData<T extends string|number|boolean|Blob|null|undefined = undefined>(storeName: string, key: string|number, value: string|number|boolean|Blob|null|undefined)
+    #store()
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        transaction.onerror = (event: Event) => { throw event; }
-        
-        await new Promise((resolve, reject) =>
-        {
-            const objectStore = transaction.objectStore(storeName);
-            const request = (value == undefined) ? objectStore.delete(key) : objectStore.put({key, value});
-            request.onsuccess = (event: Event) =>
-            {
-                const value = (event.target as unknown as { result: T }).result;
-                resolve(value);
-            }
-            request.onerror = (event: Event) => { reject(event); }
-        });
+        const store = this.#access.data.stores.get(this.name);
+        if(store == null) { throw new DOMException(`The "${this.name}" object store has been deleted.`, 'InvalidStateError'); }
+        return store;
     }
     /**
-     * Set the values of an entries in the target `IDBObjectStore`, by keys
-     * @param storeName the name of the `IDBObjectStore` to set the values in
-     * @param values an array of key/value pairs defining the data to set
+     * Check whether a unique index already has a key for a different value
+     * @param index the index's data
+     * @param key the key to check
+     * @param primaryKey the primary key of the value being stored
+     * @returns `true` if another value has the key
      */
-    async setDataValues(storeName: string, values:{key: string|number, value: string|number|boolean|Blob|null|undefined}[])
+    static #isTaken(index: MemoryIndexData, key: IDBValidKey, primaryKey: IDBValidKey)
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        transaction.onerror = (event: Event) => { throw event; }
-        const objectStore = transaction.objectStore(storeName);
-        const promises: Promise<unknown>[] = [];
-        for(let i = 0; i < values.length; i++)
+        for(let i = MemoryKey.search(index.entries, entry => MemoryKey.compare(entry.key, key)); i < index.entries.length; i++)
         {
-            const value = values[i];
-            promises.push(new Promise((innerResolve, innerReject) =>
-            {
-                const request = (value.value == undefined) ? objectStore.delete(value.key) : objectStore.put(value);
-                request.onsuccess = (event: Event) =>
-                {
-                    const value = (event.target as unknown as { result: unknown }).result;
-                    innerResolve(value);
-                }
-                request.onerror = (event: Event) => { innerReject(event); }
-            }));
+            const entry = index.entries[i];
+            if(MemoryKey.compare(entry.key, key) != 0) { return false; }
+            if(MemoryKey.compare(entry.primaryKey, primaryKey) != 0) { return true; }
         }
-
-        await Promise.all(promises);
+        return false;
     }
     /**
-     * Remove an entries from the target `IDBObjectStore`, by key
-     * @param storeName the name of the `IDBObjectStore` to remove the values from
-     * @param keys the keys to match 
+     * Add a value's keys to an index, in order
+     * @param index the index's data
+     * @param primaryKey the primary key of the value
+     * @param keys the value's keys in the index
      */
-    async removeData(storeName: string, ...keys: (string|number)[])
+    static #addIndexEntries(index: MemoryIndexData, primaryKey: IDBValidKey, keys: IDBValidKey[])
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        transaction.onerror = (event: Event) => { throw event; }
-        await new Promise((resolve, _reject) =>
+        for(const key of keys)
         {
-            const objectStore = transaction.objectStore(storeName);
-            const promises: Promise<unknown>[] = [];
-            for(let i = 0; i < keys.length; i++)
+            if(index.unique && MemoryObjectStore.#isTaken(index, key, primaryKey))
             {
-                const key = keys[i];
-                promises.push(new Promise((innerResolve, innerReject) =>
-                {
-                    const request = objectStore.delete(key);
-                    request.onsuccess = (event: Event) =>
-                    {
-                        const value = (event.target as unknown as { result: unknown }).result;
-                        innerResolve(value);
-                    }
-                    request.onerror = (event: Event) => { innerReject(event); }
-                }));
-
+                throw new DOMException(`The unique "${index.name}" index has duplicate keys.`, 'ConstraintError');
             }
-
-            resolve(Promise.all(promises));
-        });
+            const position = MemoryKey.search(index.entries, entry => MemoryKey.compare(entry.key, key) || MemoryKey.compare(entry.primaryKey, primaryKey));
+            index.entries.splice(position, 0, { key, primaryKey });
+        }
     }
+}
+/** An index of an object store in the scope of a `MemoryBackend` transaction */
+class MemoryIndex implements RecordBackendIndex
+{
+    readonly name: string;
+    readonly objectStore: MemoryObjectStore;
 
-    //#endregion
+    #access: MemoryTransactionAccess;
 
-    //#region Key-Only Management - data like tags, which are just strings, can be stored without even a value. Only a key is necessary
+    constructor(access: MemoryTransactionAccess, objectStore: MemoryObjectStore, name: string)
+    {
+        this.#access = access;
+        this.objectStore = objectStore;
+        this.name = name;
+    }
 
-    /**
-     * Query the target `IDBObjectStore` for the target keys, and return all that exist.
-     * @param storeName the name of the `IDBObjectStore` to query
-     * @param keys the keys to match 
-     * @returns the matching keys that exist in the `IDBObjectStore`
-     */
-    async getKeys(storeName: string, ...keys:string[])
+    get keyPath() { return this.#index().keyPath; }
+    get unique() { return this.#index().unique; }
+    get multiEntry() { return this.#index().multiEntry; }
+
+    count(query?: RecordBackendQuery|null)
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName], 'readonly');
-        transaction.onerror = (event: Event) => { throw event; }
-        const value = await new Promise((resolve, reject) =>
+        const range = MemoryKeyRange.from(query);
+        return this.#access.queue(() => this.#entries(range).length);
+    }
+    get(query: RecordBackendQuery)
+    {
+        const range = MemoryKeyRange.from(query);
+        if(range == null) { throw new DOMException("A key or key range is required.", 'DataError'); }
+        return this.#access.queue(() =>
         {
-            const objectStore = transaction.objectStore(storeName);
-            const request = (keys.length == 0) ? objectStore.getAll() : objectStore.get(keys);
-            request.onsuccess = (event: Event) =>
-            {
-                const record = (event.target as unknown as { result: { key: string }[] }).result;
-                resolve((record == null) ? [] : record.map((item: {key: string}) => { return item.key }));
-            }
-            request.onerror = (event: Event) => { reject(event); }
+            const [entry] = this.#entries(range);
+            return (entry == null) ? undefined : this.#readValue(entry.primaryKey);
         });
-        return value as string[];
     }
+    getAll(query?: RecordBackendQuery|null, count?: number)
+    {
+        const range = MemoryKeyRange.from(query);
+        return this.#access.queue(() => this.#entries(range).slice(0, count || undefined).map(entry => this.#readValue(entry.primaryKey)));
+    }
+    getAllKeys(query?: RecordBackendQuery|null, count?: number)
+    {
+        const range = MemoryKeyRange.from(query);
+        return this.#access.queue(() => this.#entries(range).slice(0, count || undefined).map(entry => entry.primaryKey));
+    }
+    openCursor(query?: RecordBackendQuery|null, direction: IDBCursorDirection = 'next')
+    {
+        this.#index();
+        return new MemoryCursor(this.#access, this.objectStore, this.name, MemoryKeyRange.from(query), direction, true).open() as MemoryRequest<RecordBackendCursorWithValue|null>;
+    }
+    openKeyCursor(query?: RecordBackendQuery|null, direction: IDBCursorDirection = 'next')
+    {
+        this.#index();
+        return new MemoryCursor(this.#access, this.objectStore, this.name, MemoryKeyRange.from(query), direction, false).open() as MemoryRequest<RecordBackendCursor|null>;
+    }
+
     /**
-     * Store a key, without an associated value, in the target `IDBObjectStore`
-     * @param storeName the name of the `IDBObjectStore` to store the key in
-     * @param key the value to store
-     * @returns the value that was stored
+     * Get this index's data
+     * @returns the data, as it is now
      */
-    async setKey(storeName:string, key: string)
+    #index()
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        transaction.onerror = (event: Event) => { throw event; }
-        
-        const result = await new Promise((resolve, reject) =>
-        {
-            const objectStore = transaction.objectStore(storeName);
-            const request = objectStore.put({key});
-            request.onsuccess = (event: Event) =>
-            {
-                const value = (event.target as unknown as { result: unknown }).result;
-                resolve(value);
-            }
-            request.onerror = (event: Event) => { reject(event); }
-        });
-        return result;
+        const index = this.#access.data.stores.get(this.objectStore.name)?.indexes.get(this.name);
+        if(index == null) { throw new DOMException(`The "${this.name}" index has been deleted.`, 'InvalidStateError'); }
+        return index;
+    }
+    #entries(range: MemoryKeyRange|null)
+    {
+        return MemoryKey.inRange(this.#index().entries, range, entry => entry.key);
+    }
+    #readValue(primaryKey: IDBValidKey)
+    {
+        const record = MemoryKey.find(this.#access.data.stores.get(this.objectStore.name)!, primaryKey);
+        return (record == null) ? undefined : structuredClone(record.value);
+    }
+}
+/** A cursor over an object store or index in a `MemoryBackend` database.
+* Each step finds the next position in the data as it is when the step runs, so the cursor sees changes made while it's open. */
+class MemoryCursor implements RecordBackendCursorWithValue
+{
+    readonly direction: IDBCursorDirection;
+    key: IDBValidKey = undefined as unknown as IDBValidKey;
+    primaryKey: IDBValidKey = undefined as unknown as IDBValidKey;
+    value: unknown = undefined;
+
+    #access: MemoryTransactionAccess;
+    #objectStore: MemoryObjectStore;
+    #indexName: string|null;
+    #range: MemoryKeyRange|null;
+    #hasValue: boolean;
+    #request: MemoryRequest<MemoryCursor|null> = new MemoryRequest();
+    #position: { key: IDBValidKey, primaryKey: IDBValidKey }|null = null;
+    #isWaiting: boolean = true;
+
+    constructor(access: MemoryTransactionAccess, objectStore: MemoryObjectStore, indexName: string|null, range: MemoryKeyRange|null, direction: IDBCursorDirection, hasValue: boolean)
+    {
+        this.#access = access;
+        this.#objectStore = objectStore;
+        this.#indexName = indexName;
+        this.#range = range;
+        this.direction = direction;
+        this.#hasValue = hasValue;
     }
+
     /**
-     * Store keys, without associated values, in the target `IDBObjectStore`
-     * @param storeName the name of the `IDBObjectStore` to store the keys in
-     * @param keys the values to store
-     * @returns an array of the stored keys
+     * Place the request that moves the cursor to its first position
+     * @returns the request, which is used again by every step of the cursor
      */
-    async setKeys(storeName:string, keys: string[]):  Promise<string[]>
+    open()
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        const promises: Promise<string>[] = [];
-        for(let i = 0; i < keys.length; i++)
+        return this.#access.queue(() => this.#step(), this.#request);
+    }
+    continue(key?: IDBValidKey)
+    {
+        if(key !== undefined)
         {
-            const key = keys[i];
-            promises.push(new Promise<string>((resolve, reject) =>
-            {
-                const objectStore = transaction.objectStore(storeName);
-                const request = objectStore.put({key});
-                request.onsuccess = (event: Event) =>
-                {
-                    const value = (event.target as unknown as { result: string }).result;
-                    resolve(value);
-                }
-                request.onerror = (event: Event) => { reject(event); }
-            }));
+            MemoryKey.validate(key);
+            const comparison = MemoryKey.compare(key, this.key);
+            const isForward = this.direction == 'next' || this.direction == 'nextunique';
+            if(isForward ? comparison <= 0 : comparison >= 0) { throw new DOMException("The key is not past the cursor's position.", 'DataError'); }
         }
-
-        const results: string[] = await Promise.all(promises);
-        const updatedRecords = await this.getKeys(storeName, ...results)
-        return updatedRecords;
+        this.#advance(() => this.#step(key === undefined ? undefined : { key }));
     }
-    /**
-     * Removes a key from the target `IDBObjectStore`
-     * @param storeName the name of the `IDBObjectStore` to remove the key from
-     * @param key the key to remove
-     */
-    async removeKey(storeName: string, key: string)
+    continuePrimaryKey(key: IDBValidKey, primaryKey: IDBValidKey)
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        transaction.onerror = (event: Event) => { throw event; }
-        await new Promise((resolve, reject) =>
+        if(this.#indexName == null || this.direction == 'nextunique' || this.direction == 'prevunique')
         {
-            const objectStore = transaction.objectStore(storeName);
-            const request = objectStore.delete(key);
-            request.onsuccess = (event: Event) =>
-            {
-                const value = (event.target as unknown as { result: unknown }).result;
-                resolve(value);
-            }
-            request.onerror = (event: Event) => { reject(event); }
-        });
+            throw new DOMException("continuePrimaryKey can only be used by index cursors that aren't unique.", 'InvalidAccessError');
+        }
+        MemoryKey.validate(key);
+        MemoryKey.validate(primaryKey);
+        this.#advance(() => this.#step({ key, primaryKey }));
     }
-    /**
-     * Remove all keys from the target `IDBObjectStore`
-     * @param storeName the name of the `IDBObjectStore` to remove the keys from
-     */
-    async clearStoreKeys(storeName: string)
+    update(value: unknown)
     {
-        if(this.#database == null) { throw new Error("The database has not been opened."); }
-        const transaction = this.openTransaction([storeName]);
-        transaction.onerror = (event: Event) => { throw event; }
-        await new Promise((resolve, reject) =>
+        this.#checkValue();
+        const keyPath = this.#objectStore.keyPath;
+        if(keyPath != null)
         {
-            const objectStore = transaction.objectStore(storeName);
-            const request = objectStore.clear();
-            request.onsuccess = (event: Event) =>
-            {
-                const value = (event.target as unknown as { result: unknown }).result;
-                resolve(value);
-            }
-            request.onerror = (event: Event) => { reject(event); }
-        });
+            const key = MemoryKey.extract(value, keyPath);
+            if(!MemoryKey.isValid(key) || MemoryKey.compare(key, this.primaryKey) != 0) { throw new DOMException("The value's key doesn't match the cursor's primary key.", 'DataError'); }
+            return this.#objectStore.put(value);
+        }
+        return this.#objectStore.put(value, this.primaryKey);
+    }
+    delete()
+    {
+        this.#checkValue();
+        return this.#objectStore.delete(this.primaryKey);
     }
 
-    //#endregion
-    
     /**
-     * Create a random, locally-unique string value to use as an id
-     * @returns a `string` id value
+     * Place the request for the cursor's next step, on the same request that opened it
+     * @param step moves the cursor
      */
-    static generateId(): string
+    #advance(step: () => MemoryCursor|null)
     {
-        const rnd = new Uint8Array(20);
-        crypto.getRandomValues(rnd);
+        if(this.#isWaiting) { throw new DOMException("The cursor is already moving, or has finished.", 'InvalidStateError'); }
+        this.#isWaiting = true;
+        this.#access.queue(step, this.#request);
+    }
+    #checkValue()
+    {
+        this.#access.checkWrite();
+        if(this.#isWaiting || !this.#hasValue) { throw new DOMException("The cursor is not at a value.", 'InvalidStateError'); }
+    }
+    /**
+     * Move the cursor to the next position in its direction
+     * @param target a key, and optionally a primary key, that the next position must not be before
+     * @returns the cursor, or `null` if it has no more positions
+     */
+    #step(target?: { key: IDBValidKey, primaryKey?: IDBValidKey })
+    {
+        const store = this.#access.data.stores.get(this.#objectStore.name);
+        const index = (this.#indexName == null) ? null : store?.indexes.get(this.#indexName);
+        if(store == null || (this.#indexName != null && index == null)) { throw new DOMException("The cursor's source has been deleted.", 'InvalidStateError'); }
 
-        const b64 = [].slice
-            .apply(rnd)
-            .map(function (ch) 
-            {
-                return String.fromCharCode(ch);
-            })
-            .join('');
+        const items: { key: IDBValidKey, primaryKey?: IDBValidKey }[] = index?.entries ?? store.records;
+        const getPrimaryKey = (item: { key: IDBValidKey, primaryKey?: IDBValidKey }) => item.primaryKey ?? item.key;
+        const compareKey = (item: { key: IDBValidKey }, key: IDBValidKey) => MemoryKey.compare(item.key, key);
+        const comparePosition = (item: { key: IDBValidKey, primaryKey?: IDBValidKey }, key: IDBValidKey, primaryKey?: IDBValidKey) =>
+            compareKey(item, key) || ((index == null || primaryKey === undefined) ? 0 : MemoryKey.compare(getPrimaryKey(item), primaryKey));
 
-        const secret = btoa(b64)
-            .replace(/\//g, '_')
-            .replace(/\+/g, '-')
-            .replace(/=/g, '');
+        const range = this.#range;
+        const position = this.#position;
+        const isUnique = this.direction == 'nextunique' || this.direction == 'prevunique';
+        let found: number;
+        if(this.direction == 'next' || this.direction == 'nextunique')
+        {
+            let start = 0;
+            if(range?.lower !== undefined) { start = Math.max(start, MemoryKey.search(items, item => compareKey(item, range.lower!), range.lowerOpen)); }
+            if(position != null) { start = Math.max(start, MemoryKey.search(items, item => comparePosition(item, position.key, isUnique ? undefined : position.primaryKey), true)); }
+            if(target != null) { start = Math.max(start, MemoryKey.search(items, item => comparePosition(item, target.key, target.primaryKey))); }
 
-        return secret;
+            const item = items[start];
+            const isInRange = item != null && (range?.upper === undefined || !(compareKey(item, range.upper) > 0 || (compareKey(item, range.upper) == 0 && range.upperOpen)));
+            found = isInRange ? start : -1;
+        }
+        else
+        {
+            let end = items.length;
+            if(range?.upper !== undefined) { end = Math.min(end, MemoryKey.search(items, item => compareKey(item, range.upper!), !range.upperOpen)); }
+            if(position != null) { end = Math.min(end, MemoryKey.search(items, item => comparePosition(item, position.key, isUnique ? undefined : position.primaryKey))); }
+            if(target != null) { end = Math.min(end, MemoryKey.search(items, item => comparePosition(item, target.key, target.primaryKey), true)); }
+
+            const item = items[end - 1];
+            const isInRange = item != null && (range?.lower === undefined || !(compareKey(item, range.lower) < 0 || (compareKey(item, range.lower) == 0 && range.lowerOpen)));
+            // unique cursors stop on the first value of each key, even when moving backwards
+            found = !isInRange ? -1 : isUnique ? MemoryKey.search(items, entry => compareKey(entry, item.key)) : end - 1;
+        }
+
+        this.#isWaiting = false;
+        if(found == -1)
+        {
+            this.#position = null;
+            this.#isWaiting = true;
+            return null;
+        }
+
+        const item = items[found];
+        this.key = item.key;
+        this.primaryKey = getPrimaryKey(item);
+        this.#position = { key: this.key, primaryKey: this.primaryKey };
+        if(this.#hasValue) { this.value = structuredClone(MemoryKey.find(store, this.primaryKey)?.value); }
+        return this;
     }
-}
\ No newline at end of file
+}
+
+//#endregion
\ No newline at end of file
@@ -0,0 +1,61 @@
+// Tests of counting and summarizing records.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+/**
+ * Open a database with a store of records to summarize
+ * @returns the opened RecordSetter, and its tasks store
+ */
+async function openTasks()
+{
+    const { data } = await open({ schema: { tasks: "id, name, n, type" } });
+    const tasks = data.addStore('tasks', ['tasks'], { useSoftDelete: true });
+    await tasks.addRecords([
+        { id: '1', name: 'a', type: 'bug', n: 3, size: 2, tags: ['ui', 'api'] },
+        { id: '2', name: 'b', type: 'bug', n: 1, size: 4, tags: ['ui'] },
+        { id: '3', name: 'c', type: 'feature', n: 7, size: 5 },
+        { id: '4', name: 'b', type: 'feature', n: 5 },
+        { id: '5', name: 'd', type: 'bug', n: 10, size: 100 },
+    ]);
+    await tasks.removeRecord('5');
+    return { data, tasks };
+}
+
+test('counts the records that match a predicate, leaving out soft-deleted records', async () =>
+{
+    const { data, tasks } = await openTasks();
+    assert.equal(await tasks.count(), 4);
+    assert.equal(await tasks.count({ n: { $gte: 3 } }), 3);
+    assert.equal(await tasks.count({ type: 'bug', size: { $gt: 2 } }), 1);
+    assert.equal(await tasks.count(null, { includeDeleted: true }), 5);
+    assert.equal(await tasks.count(null, { onlyDeleted: true }), 1);
+    await data.close();
+});
+
+test('reads the distinct values, and the lowest and highest values, of a property', async () =>
+{
+    const { data, tasks } = await openTasks();
+    assert.deepEqual(await tasks.distinct('name'), ['a', 'b', 'c']);
+    assert.deepEqual(await tasks.distinct('name', null, { includeDeleted: true }), ['a', 'b', 'c', 'd']);
+    assert.deepEqual(await tasks.distinct('tags'), ['api', 'ui']);
+    assert.equal(await tasks.min('n'), 1);
+    assert.equal(await tasks.max('n'), 7);
+    assert.equal(await tasks.max('n', { type: 'bug' }), 3);
+    assert.equal(await tasks.max('size'), 5);
+    assert.equal(await tasks.min('n', { type: 'none' }), undefined);
+    await data.close();
+});
+
+test('summarizes the records of each group', async () =>
+{
+    const { data, tasks } = await openTasks();
+    assert.deepEqual(await tasks.groupBy('type', { count: true, sum: 'size', avg: ['size', 'n'], min: 'n', max: ['n', 'name'] }), [
+        { key: 'bug', count: 2, sum: { size: 6 }, avg: { size: 3, n: 2 }, min: { n: 1 }, max: { n: 3, name: 'b' } },
+        { key: 'feature', count: 2, sum: { size: 5 }, avg: { size: 5, n: 6 }, min: { n: 5 }, max: { n: 7, name: 'c' } },
+    ]);
+    // array values count each of their items as a group
+    assert.deepEqual(await tasks.groupBy('tags', { count: true }, { type: 'bug' }), [{ key: 'api', count: 1 }, { key: 'ui', count: 2 }]);
+    assert.deepEqual(await tasks.groupBy('type', { avg: 'missing' }, { type: 'feature' }), [{ key: 'feature', avg: { missing: null } }]);
+    await data.close();
+});
@@ -0,0 +1,31 @@
+// Tests of bulkImport.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+test('cancels an import as soon as its signal is aborted', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    const controller = new AbortController();
+    const reason = new Error('cancelled');
+    async function* source()
+    {
+        yield { id: '1' };
+        yield { id: '2' };
+        // a source that stalls doesn't hold up the cancellation
+        await new Promise(() => { /* never resolves */ });
+    }
+
+    const progress = [];
+    const imported = tasks.bulkImport(source(), { chunkSize: 1, signal: controller.signal, onProgress: (event) => { progress.push(event.imported); } });
+    while(progress.length < 2) { await new Promise(resolve => setTimeout(resolve, 1)); }
+    controller.abort(reason);
+    await assert.rejects(imported, (error) => error === reason);
+    assert.deepEqual(progress, [1, 2]);
+    assert.equal(await tasks.count(), 2);
+
+    await assert.rejects(tasks.bulkImport([{ id: '3' }], { signal: AbortSignal.abort(reason) }), (error) => error === reason);
+    assert.equal(await tasks.count(), 2);
+    await data.close();
+});
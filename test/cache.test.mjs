@@ -0,0 +1,69 @@
+// Tests of the read cache, and of dropping records from it when they change.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+test('serves repeated reads from the cache, and evicts the least recently read records', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { cache: { maxEntries: 2 } });
+    await tasks.addRecords([{ id: '1', name: 'one' }, { id: '2' }, { id: '3' }]);
+
+    const first = await tasks.getRecord('1');
+    first.name = 'changed';
+    // each read gets its own copy
+    assert.equal((await tasks.getRecord('1')).name, 'one');
+    await tasks.getRecords(['2', '3']);
+    assert.deepEqual(tasks.getCacheStats(), { hits: 1, misses: 3, evictions: 1, size: 2, maxEntries: 2 });
+
+    await tasks.getRecord('1');
+    assert.equal(tasks.getCacheStats().misses, 4);
+    tasks.clearCache();
+    assert.equal(tasks.getCacheStats().size, 0);
+    assert.equal(data.addStore('other', ['tasks']).getCacheStats(), null);
+    await data.close();
+});
+
+test('drops records that are changed through the store', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { cache: {}, useSoftDelete: true });
+    await tasks.addRecords([{ id: '1', name: 'one' }, { id: '2', name: 'two' }]);
+    await tasks.getRecords(['1', '2']);
+
+    await tasks.updateRecord({ id: '1', name: 'uno' });
+    assert.equal((await tasks.getRecord('1')).name, 'uno');
+    await tasks.patchRecord('1', { name: 'eins' });
+    assert.equal((await tasks.getRecord('1')).name, 'eins');
+    await tasks.removeRecord('2');
+    assert.equal(await tasks.getRecord('2'), null);
+    await tasks.restoreRecord('2');
+    assert.equal((await tasks.getRecord('2')).name, 'two');
+    await data.transaction(['tasks'], async (transaction) => { await transaction.store('tasks').updateRecord({ id: '2', name: 'zwei' }); });
+    assert.equal((await tasks.getRecord('2')).name, 'zwei');
+    await tasks.clear();
+    await tasks.bulkImport([{ id: '1', name: 'imported' }]);
+    assert.equal((await tasks.getRecord('1')).name, 'imported');
+    assert.equal(await tasks.getRecord('2'), null);
+    await data.close();
+});
+
+test('drops records that are replaced by an import', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { cache: {} });
+    await tasks.addRecords([{ id: '1', name: 'one' }, { id: '2', name: 'two' }]);
+    const backup = await data.exportDatabase();
+    await tasks.updateRecord({ id: '1', name: 'changed' });
+    await tasks.addRecord({ id: '3', name: 'three' });
+    await tasks.getRecords(['1', '2', '3']);
+
+    await data.importDatabase(backup, { mode: 'replace' });
+    assert.equal((await tasks.getRecord('1')).name, 'one');
+    assert.equal(await tasks.getRecord('3'), null);
+
+    await tasks.getRecord('1');
+    await data.importDatabase({ ...backup, stores: { tasks: [{ id: '1', name: 'merged' }] } }, { mode: 'merge' });
+    assert.equal((await tasks.getRecord('1')).name, 'merged');
+    await data.close();
+});
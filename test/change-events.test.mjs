@@ -0,0 +1,83 @@
+// Tests of change events, and of broadcasting them to other tabs.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { MemoryBackend } from './.build/record-setter.mjs';
+import { open } from './helpers.mjs';
+
+/** A MemoryBackend that reports itself as shared, so that its RecordSetters broadcast their changes like tabs do */
+class SharedMemoryBackend extends MemoryBackend
+{
+    isShared = true;
+}
+
+/**
+ * Wait for a list of events to reach a length
+ * @param events the list that a listener adds events to
+ * @param length the length to wait for
+ */
+async function waitForEvents(events, length)
+{
+    for(let i = 0; i < 100 && events.length < length; i++) { await delay(5); }
+}
+
+test('reports each change to the store and instance listeners once it has been committed', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { useSoftDelete: true });
+    const storeEvents = [];
+    const events = [];
+    const unsubscribe = tasks.subscribe((event) => { storeEvents.push([event.operation, event.ids]); });
+    const listener = (event) => { events.push([event.storeName, event.operation, event.ids]); };
+    data.on('change', listener);
+
+    const adding = tasks.addRecords([{ id: '1' }, { id: '2' }]);
+    assert.deepEqual(events, []);
+    await adding;
+    await tasks.updateRecord({ id: '1', name: 'one' });
+    await tasks.removeRecord('2');
+    await tasks.restoreRecord('2');
+    await data.setValue('theme', 'dark');
+    await tasks.clear();
+    // clear resolves once its request has succeeded, before the transaction has been committed
+    await waitForEvents(storeEvents, 5);
+    assert.deepEqual(storeEvents, [['add', ['1', '2']], ['update', ['1']], ['remove', ['2']], ['restore', ['2']], ['clear', []]]);
+    assert.deepEqual(events.map(([storeName, operation]) => [storeName, operation]), [
+        ['tasks', 'add'], ['tasks', 'update'], ['tasks', 'remove'], ['tasks', 'restore'], ['keyValue', 'set'], ['tasks', 'clear'],
+    ]);
+
+    // changes that are rolled back aren't reported
+    await tasks.addRecord({ id: '3' });
+    await assert.rejects(tasks.addRecords([{ id: '4' }, { id: '3' }]), { name: 'ConstraintViolationError' });
+    assert.deepEqual(storeEvents.at(-1), ['add', ['3']]);
+
+    unsubscribe();
+    data.off('change', listener);
+    await tasks.removeRecord('3');
+    assert.equal(storeEvents.length, 6);
+    assert.equal(events.length, 7);
+    await data.close();
+});
+
+test('broadcasts changes to the other tabs that have the database open', async () =>
+{
+    const backend = new SharedMemoryBackend();
+    const { data: first } = await open({ backend });
+    const { data: second } = await open({ backend });
+    const { data: silent } = await open({ backend, broadcastChanges: false });
+    const received = [];
+    const storeReceived = [];
+    second.on('change', (event) => { received.push(event); });
+    second.addStore('tasks', ['tasks']).subscribe((event) => { storeReceived.push(event); });
+
+    await first.addStore('tasks', ['tasks']).addRecord({ id: '1' });
+    await waitForEvents(received, 1);
+    assert.deepEqual(received, [{ storeName: 'tasks', operation: 'add', ids: ['1'], remote: true }]);
+    assert.deepEqual(storeReceived, received);
+
+    // remote changes aren't sent on again, and instances that don't broadcast don't send theirs
+    await silent.addStore('tasks', ['tasks']).addRecord({ id: '2' });
+    await delay(50);
+    assert.equal(received.length, 1);
+    await Promise.all([first.close(), second.close(), silent.close()]);
+});
@@ -0,0 +1,89 @@
+// Tests of encrypting record fields and key/value values at rest.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+const notesSchema = { tasks: "id, name, n", notes: "id, title" };
+
+/**
+ * Create a new AES-GCM key
+ * @returns the key
+ */
+function createKey()
+{
+    return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+}
+/**
+ * Read a record as it is stored, without decrypting it
+ * @param data the RecordSetter to read from
+ * @param storeName the store to read from
+ * @param id the id of the record
+ * @returns the stored record
+ */
+function readStored(data, storeName, id)
+{
+    return new Promise((resolve, reject) =>
+    {
+        const request = data.openTransaction([storeName], 'readonly').objectStore(storeName).get(id);
+        request.onsuccess = () => { resolve(request.result); };
+        request.onerror = () => { reject(request.error); };
+    });
+}
+
+test('encrypts fields when records are stored, and decrypts them when they are read', async () =>
+{
+    const { data } = await open({ schema: notesSchema });
+    const notes = data.addStore('notes', ['notes'], { encrypt: { key: await createKey(), fields: ['body', 'attachment'] } });
+    const note = { id: '1', title: 'Plans', body: { text: 'secret', tags: ['a'] }, attachment: new Blob(['file contents'], { type: 'text/plain' }) };
+    const stored = await notes.addRecord(note).then(() => notes.getRecord('1'));
+
+    assert.deepEqual(stored.body, { text: 'secret', tags: ['a'] });
+    assert.equal(stored.attachment.type, 'text/plain');
+    assert.equal(await stored.attachment.text(), 'file contents');
+    const raw = await readStored(data, 'notes', '1');
+    assert.equal(raw.title, 'Plans');
+    assert.equal(raw.body.$encrypted, 'AES-GCM');
+    assert.equal(raw.attachment.$encrypted, 'AES-GCM');
+    assert.equal(JSON.stringify(raw).includes('secret'), false);
+
+    const patched = await notes.patchRecord('1', { body: { text: 'changed' } });
+    assert.deepEqual(patched.body, { text: 'changed' });
+    assert.deepEqual((await notes.getAllRecords()).map(record => record.body), [{ text: 'changed' }]);
+    await data.close();
+});
+
+test('keeps fields encrypted in exports, and readable with the key after an import', async () =>
+{
+    const key = await createKey();
+    const { data } = await open({ schema: notesSchema });
+    await data.addStore('notes', ['notes'], { encrypt: { key, fields: ['body'] } }).addRecord({ id: '1', title: 'Plans', body: 'secret' });
+    const backup = JSON.stringify(await data.exportDatabase());
+    assert.equal(backup.includes('secret'), false);
+    await data.close();
+
+    const { data: restored } = await open({ schema: notesSchema });
+    await restored.importDatabase(JSON.parse(backup));
+    const notes = restored.addStore('notes', ['notes'], { encrypt: { key, fields: ['body'] } });
+    assert.equal((await notes.getRecord('1')).body, 'secret');
+    await restored.close();
+});
+
+test('rejects encrypting fields that are indexed', async () =>
+{
+    const { data } = await open({ schema: notesSchema });
+    const notes = data.addStore('notes', ['notes'], { encrypt: { key: await createKey(), fields: ['title'] } });
+    await assert.rejects(notes.addRecord({ id: '1', title: 'Plans' }), { name: 'RecordSetterError', message: /title/ });
+    await data.close();
+});
+
+test('encrypts key/value values with the keyValueEncryptionKey', async () =>
+{
+    const { data } = await open({ keyValueEncryptionKey: await createKey() });
+    await data.setValue('token', { secret: 'abc' });
+    await data.setValues([{ key: 'other', value: 'xyz' }]);
+
+    assert.deepEqual(await data.getValue('token'), { secret: 'abc' });
+    assert.equal(JSON.stringify(await readStored(data, 'keyValue', 'token')).includes('abc'), false);
+    assert.equal(JSON.stringify(await readStored(data, 'keyValue', 'other')).includes('xyz'), false);
+    await data.close();
+});
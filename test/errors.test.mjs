@@ -0,0 +1,15 @@
+// Tests of the RecordSetterError family of errors.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+test('rejects with a StoreNotFoundError for stores missing from the database', async () =>
+{
+    const { data } = await open();
+    const missing = data.addStore('missing', ['missing']);
+    await assert.rejects(missing.addRecord({ id: '1' }), { name: 'StoreNotFoundError', storeName: 'missing' });
+    await assert.rejects(missing.getRecord('1'), { name: 'StoreNotFoundError', storeName: 'missing' });
+    const shared = data.addStore('shared', ['tasks', 'other']);
+    await assert.rejects(shared.count(), { name: 'StoreNotFoundError', storeName: 'other' });
+    await data.close();
+});
@@ -0,0 +1,90 @@
+// Tests of exportDatabase and importDatabase.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecordSetter } from './.build/record-setter.mjs';
+import { open, schema, pushChanges } from './helpers.mjs';
+
+test('exports and imports binary data, maps, sets and dates', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    const record =
+    {
+        id: '1',
+        bytes: new Uint8Array([1, 2, 255]),
+        floats: new Float64Array([0.5, -2]).subarray(1),
+        buffer: new Uint16Array([513]).buffer,
+        view: new DataView(new Uint8Array([7, 8]).buffer),
+        nested: { tags: new Set(['a', new Date(0)]), counts: new Map([['x', 1], [2, new Uint8Array([3])]]) },
+        created: new Date(1000),
+        blob: new Blob(['text'], { type: 'text/plain' }),
+    };
+    await tasks.addRecord(record);
+
+    const backup = JSON.parse(JSON.stringify(await data.exportDatabase()));
+    await tasks.clear();
+    await data.importDatabase(backup);
+
+    const restored = await tasks.getRecord('1');
+    const { blob, ...rest } = restored;
+    const { blob: _, ...expected } = record;
+    assert.deepEqual(rest, expected);
+    assert.equal(await blob.text(), 'text');
+    assert.equal(blob.type, 'text/plain');
+    await data.close();
+});
+
+test('leaves the change log and history out of exports and imports', async () =>
+{
+    const { data, backend } = await open({ changeLog: true, history: { persist: true } });
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecord({ id: '1', name: 'one' });
+    const dump = await data.exportDatabase();
+    assert.deepEqual(Object.keys(dump.stores).sort(), ['keyValue', 'tasks']);
+
+    // a dump that contains them still imports into a database without them
+    const plain = (await open()).data;
+    await plain.importDatabase({ ...dump, stores: { ...dump.stores, _changes: [{ sequence: 'x' }] } });
+    assert.equal((await plain.addStore('tasks', ['tasks']).getRecord('1')).name, 'one');
+    await plain.close();
+
+    // replacing keeps the pending changes and the history, and logs the import
+    await pushChanges(data);
+    await tasks.updateRecord({ id: '1', name: 'changed' });
+    await data.importDatabase(dump, { mode: 'replace' });
+    const pushed = await pushChanges(data);
+    assert.deepEqual(pushed.map(change => [change.storeName, change.operation, change.id]), [
+        ['tasks', 'update', '1'],
+        ['keyValue', 'clear', null],
+        ['tasks', 'clear', null],
+        ['tasks', 'set', '1'],
+    ]);
+    assert.equal((await tasks.getRecord('1')).name, 'one');
+    await data.close();
+
+    const reopened = await RecordSetter.activate({ name: 'test', version: 1, schema, backend, changeLog: true, history: { persist: true } });
+    assert.equal(reopened.history.undoUnits.length, 2);
+    await reopened.close();
+});
+
+test('restores objects that look like the tags of encoded values', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    const record =
+    {
+        id: '1',
+        name: { $date: 'not a date' },
+        tags: { $set: ['a'] },
+        counts: { $map: [['x', 1]] },
+        bytes: { $bytes: 'AQI=', type: 'Uint8Array' },
+        wrapped: { $object: { $date: 'nested' } },
+        mixed: { $gt: 1, when: new Date(0) },
+    };
+    await tasks.addRecord(record);
+
+    const backup = JSON.parse(JSON.stringify(await data.exportDatabase()));
+    await data.importDatabase(backup, { mode: 'replace' });
+    assert.deepEqual(await tasks.getRecord('1'), record);
+    await data.close();
+});
@@ -0,0 +1,28 @@
+// Helpers shared by the tests, which run RecordSetter in Node against the MemoryBackend.
+// `npm test` bundles record-setter.ts into test/.build before running them.
+import { RecordSetter, MemoryBackend, SyncManager } from './.build/record-setter.mjs';
+
+export const schema = { tasks: "id, name, n" };
+
+/**
+ * Open a database in a new MemoryBackend, or in the `backend` option's
+ * @param options RecordSetterOptions values, which replace the defaults
+ * @returns the opened RecordSetter, and its backend
+ */
+export async function open(options = {})
+{
+    const backend = options.backend ?? new MemoryBackend();
+    const data = await RecordSetter.activate({ name: 'test', version: 1, schema, ...options, backend });
+    return { data, backend };
+}
+/**
+ * Push the changes in a RecordSetter's change log, without pulling any
+ * @param data a RecordSetter opened with the changeLog option
+ * @returns the changes that were pushed
+ */
+export async function pushChanges(data)
+{
+    const pushed = [];
+    await new SyncManager(data, { push: async (changes) => { pushed.push(...changes); }, pull: async () => ({ changes: [], checkpoint: null }) }).sync();
+    return pushed;
+}
@@ -0,0 +1,85 @@
+// Tests of undoing and redoing changes with the history.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { open } from './helpers.mjs';
+
+const historySchema = { tasks: "id, name, n, searchTokens" };
+
+test('undoes and redoes changes through the store, with new revisions, timestamps and search tokens', async () =>
+{
+    const { data } = await open({ schema: historySchema, history: {} });
+    const tasks = data.addStore('tasks', ['tasks'], { versioned: true, timestamps: true, search: ['name'] });
+    await tasks.addRecord({ id: '1', name: 'first draft' });
+    const added = await tasks.getRecord('1');
+    await tasks.updateRecord({ ...added, name: 'final copy' });
+    const events = [];
+    data.on('change', (event) => { events.push([event.storeName, event.operation, event.ids]); });
+
+    await delay(5);
+    const undoneAt = Date.now();
+    assert.equal((await data.history.undo()).name, 'update');
+    const undone = await tasks.getRecord('1');
+    assert.equal(undone.name, 'first draft');
+    assert.equal(undone.revision, 3);
+    assert.equal(undone.createdTimestamp, added.createdTimestamp);
+    assert.ok(undone.updatedTimestamp >= undoneAt);
+    assert.deepEqual((await tasks.search('draft')).map(record => record.id), ['1']);
+    assert.deepEqual(await tasks.search('final'), []);
+    assert.deepEqual(events, [['tasks', 'update', ['1']]]);
+    // undoing isn't recorded as a change of its own
+    assert.equal(data.history.undoUnits.length, 1);
+    assert.equal(data.history.redoUnits.length, 1);
+
+    await data.history.redo();
+    const redone = await tasks.getRecord('1');
+    assert.equal(redone.name, 'final copy');
+    assert.equal(redone.revision, 4);
+    assert.deepEqual((await tasks.search('final')).map(record => record.id), ['1']);
+    await data.close();
+});
+
+test('accepts a versioned update of a record read after an undo', async () =>
+{
+    const { data } = await open({ history: {} });
+    const tasks = data.addStore('tasks', ['tasks'], { versioned: true });
+    await tasks.addRecord({ id: '1', name: 'a' });
+    await tasks.updateRecord({ ...(await tasks.getRecord('1')), name: 'b' });
+    await data.history.undo();
+
+    const read = await tasks.getRecord('1');
+    const updated = await tasks.updateRecord({ ...read, name: 'c' });
+    assert.equal(updated.name, 'c');
+    assert.equal(updated.revision, read.revision + 1);
+    // the stale record from before the undo is still a conflict
+    await assert.rejects(tasks.updateRecord({ id: '1', name: 'd', revision: 2 }), { name: 'VersionConflictError' });
+    await data.close();
+});
+
+test('undoes additions and removals, and the units of batches as a whole', async () =>
+{
+    const { data } = await open({ history: {} });
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecord({ id: '1', name: 'a' });
+    await data.history.batch('replace', async () =>
+    {
+        await tasks.removeRecord('1');
+        await tasks.addRecord({ id: '2', name: 'b' });
+    });
+    assert.deepEqual(data.history.undoUnits.map(unit => unit.name), ['add', 'replace']);
+
+    await data.history.undo();
+    assert.deepEqual((await tasks.getAllRecords()).map(record => record.id), ['1']);
+    await data.history.undo();
+    assert.deepEqual(await tasks.getAllRecords(), []);
+    assert.equal(await data.history.undo(), null);
+
+    await data.history.redo();
+    await data.history.redo();
+    assert.deepEqual((await tasks.getAllRecords()).map(record => record.id), ['2']);
+    // a new change clears the units that could be redone
+    await data.history.undo();
+    await tasks.addRecord({ id: '3' });
+    assert.equal(data.history.canRedo, false);
+    await data.close();
+});
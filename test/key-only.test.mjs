@@ -0,0 +1,70 @@
+// Tests of the key-only store methods.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open, schema, pushChanges } from './helpers.mjs';
+
+test('logs key-only writes to the change log', async () =>
+{
+    const { data } = await open({ schema: { ...schema, tags: "key" }, changeLog: true });
+    await data.setKey('tags', 'a');
+    await data.setKeys('tags', ['b', 'c']);
+    await data.removeKey('tags', 'b');
+    await data.clearStoreKeys('tags');
+
+    const pushed = await pushChanges(data);
+    assert.deepEqual(pushed.map(change => [change.storeName, change.operation, change.id, change.payload]), [
+        ['tags', 'set', 'a', { key: 'a' }],
+        ['tags', 'set', 'b', { key: 'b' }],
+        ['tags', 'set', 'c', { key: 'c' }],
+        ['tags', 'remove', 'b', null],
+        ['tags', 'clear', null, null],
+    ]);
+    await data.close();
+});
+
+test('removes keys all together, reporting and logging the removal', async () =>
+{
+    const { data } = await open({ schema: { ...schema, tags: "key" }, changeLog: true });
+    await data.setKeys('tags', ['a', 'b', 'c']);
+    const events = [];
+    data.on('change', (event) => { events.push(event); });
+
+    // an invalid key rolls back the deletes queued before it
+    await assert.rejects(data.removeKeys('tags', ['a', {}, 'c']), { name: 'RecordSetterError' });
+    assert.deepEqual(await data.listKeys('tags'), ['a', 'b', 'c']);
+    assert.deepEqual(events, []);
+
+    await data.removeKeys('tags', ['a', 'c']);
+    assert.deepEqual(await data.listKeys('tags'), ['b']);
+    assert.deepEqual(events.map(event => [event.storeName, event.operation, event.ids]), [['tags', 'remove', ['a', 'c']]]);
+
+    const pushed = await pushChanges(data);
+    assert.deepEqual(pushed.filter(change => change.operation == 'remove').map(change => change.id), ['a', 'c']);
+    await data.close();
+});
+
+test('reports key-only writes once they have been committed', async () =>
+{
+    const { data } = await open({ schema: { ...schema, tags: "key" } });
+    const events = [];
+    data.on('change', (event) => { events.push([event.storeName, event.operation, event.ids]); });
+
+    assert.equal(await data.setKey('tags', 'a'), 'a');
+    // each write has been committed, and reported, by the time it resolves
+    assert.deepEqual(events, [['tags', 'set', ['a']]]);
+    assert.deepEqual(await data.setKeys('tags', ['b', 'c']), ['b', 'c']);
+    await data.removeKey('tags', 'b');
+    await data.clearStoreKeys('tags');
+    assert.deepEqual(events, [
+        ['tags', 'set', ['a']],
+        ['tags', 'set', ['b', 'c']],
+        ['tags', 'remove', ['b']],
+        ['tags', 'clear', []],
+    ]);
+
+    // an invalid key rolls back the keys queued before it, and isn't reported
+    await assert.rejects(data.setKeys('tags', ['d', {}]), { name: 'RecordSetterError' });
+    assert.deepEqual(await data.listKeys('tags'), []);
+    assert.equal(events.length, 4);
+    await data.close();
+});
@@ -0,0 +1,55 @@
+// Tests of expiring key/value entries, and of structured values.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { open, schema } from './helpers.mjs';
+
+test('stores plain objects and arrays as they are', async () =>
+{
+    const { data } = await open();
+    const recentFiles = [{ path: '/notes.md', opened: 1, tags: ['a', 'b'] }, { path: '/todo.md', opened: 2, meta: { pinned: true, color: null } }];
+    await data.setValue('recentFiles', recentFiles);
+    await data.setValues([{ key: 'count', value: 3 }, { key: 'flags', value: { dark: true } }]);
+
+    assert.deepEqual(await data.getValue('recentFiles'), recentFiles);
+    assert.deepEqual(await data.getValues(['count', 'flags', 'missing']), [3, { dark: true }, null]);
+    // values are copies, so changing them doesn't change what's stored
+    (await data.getValue('flags')).dark = false;
+    assert.deepEqual(await data.getValue('flags'), { dark: true });
+    await data.close();
+});
+
+test('reads expired values as null, and removes them when they are read', async () =>
+{
+    const { data } = await open();
+    await data.setValue('session', { token: 'abc' }, { ttlMs: 20 });
+    await data.setValues([{ key: 'cached', value: [1, 2], ttlMs: 20 }, { key: 'kept', value: 'forever' }]);
+    assert.deepEqual(await data.getValue('session'), { token: 'abc' });
+
+    await delay(40);
+    assert.equal(await data.getValue('session'), null);
+    assert.deepEqual(await data.getAllValues(), ['forever']);
+    assert.deepEqual(await data.getValues(['cached', 'kept']), [null, 'forever']);
+    // setting a value again without a ttlMs keeps it until it's removed
+    await data.setValue('session', { token: 'def' }, { ttlMs: 20 });
+    await data.setValue('session', { token: 'def' });
+    await delay(40);
+    assert.deepEqual(await data.getValue('session'), { token: 'def' });
+    await data.close();
+});
+
+test('removes every expired value on demand', async () =>
+{
+    const { data } = await open({ schema: { ...schema, cache: "key" } });
+    await data.setValues([{ key: 'a', value: 1, ttlMs: 10 }, { key: 'b', value: 2, ttlMs: 60 * 1000 }, { key: 'c', value: 3, ttlMs: 10 }]);
+    await data.setDataValues('cache', [{ key: 'page', value: { html: '<p>' }, ttlMs: 10 }, { key: 'kept', value: 'x' }]);
+    await delay(30);
+
+    assert.deepEqual((await data.removeExpiredValues()).sort(), ['a', 'c']);
+    assert.deepEqual(await data.removeExpiredValues(), []);
+    assert.deepEqual(await data.getAllValues(), [2]);
+    assert.deepEqual(await data.removeExpiredData('cache'), ['page']);
+    assert.equal(await data.getData('cache', 'page'), null);
+    assert.equal(await data.getData('cache', 'kept'), 'x');
+    await data.close();
+});
@@ -0,0 +1,73 @@
+// Smoke tests of the MemoryBackend: opening and upgrading, reading and writing, cursors, and rollback.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecordSetter } from './.build/record-setter.mjs';
+import { open, schema } from './helpers.mjs';
+
+test('opens, and upgrades with new stores and migrations', async () =>
+{
+    const { data, backend } = await open();
+    await data.addStore('tasks', ['tasks']).addRecord({ id: '1', name: 'one' });
+    await data.close();
+
+    const upgraded = await RecordSetter.activate({
+        name: 'test',
+        version: 2,
+        schema: { ...schema, notes: "id" },
+        backend,
+        migrations: { 2: (transaction) => { transaction.objectStore('notes').put({ id: 'migrated' }); } },
+    });
+    assert.deepEqual(await upgraded.addStore('notes', ['notes']).getRecord('migrated'), { id: 'migrated' });
+    assert.equal((await upgraded.addStore('tasks', ['tasks']).getRecord('1')).name, 'one');
+    await upgraded.close();
+});
+
+test('adds, reads, updates and removes records', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords([{ id: '1', name: 'one', n: 1 }, { id: '2', name: 'two', n: 2 }]);
+    await tasks.updateRecord({ id: '1', name: 'uno', n: 1 });
+    assert.equal((await tasks.getRecord('1')).name, 'uno');
+    assert.deepEqual((await tasks.getRecords(['1', '2'])).map(record => record.id), ['1', '2']);
+
+    await tasks.removeRecord('2');
+    assert.equal(await tasks.getRecord('2'), null);
+    assert.equal(await tasks.count(), 1);
+    await data.close();
+});
+
+test('reads through cursors, in index order', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords([5, 3, 8, 1].map(n => ({ id: `t${n}`, name: `task ${n}`, n })));
+
+    assert.deepEqual((await tasks.query({ n: { $gte: 3 } }, 'n')).map(record => record.n), [3, 5, 8]);
+    const first = await tasks.getPage(null, { limit: 2 });
+    const second = await tasks.getPage(null, { limit: 2, after: first.next });
+    assert.deepEqual([...first.records, ...second.records].map(record => record.id), ['t1', 't3', 't5', 't8']);
+
+    const iterated = [];
+    for await (const record of tasks.iterate({ n: { $lt: 8 } })) { iterated.push(record.n); }
+    assert.deepEqual(iterated.sort(), [1, 3, 5]);
+    await data.close();
+});
+
+test('rolls back a transaction that fails', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecord({ id: '1', name: 'one' });
+
+    await assert.rejects(data.transaction(['tasks'], async (transaction) =>
+    {
+        await transaction.store('tasks').updateRecord({ id: '1', name: 'changed' });
+        await transaction.store('tasks').updateRecord({ id: '2', name: 'two' });
+        throw new Error('failed');
+    }), /failed/);
+
+    assert.equal((await tasks.getRecord('1')).name, 'one');
+    assert.equal(await tasks.getRecord('2'), null);
+    await data.close();
+});
@@ -0,0 +1,97 @@
+// Tests of reading records a page at a time, and of iterating over them.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { open } from './helpers.mjs';
+
+/**
+ * Read every page of a store's records
+ * @param store the store to read
+ * @param predicate the predicate to match records with
+ * @param options the options of each page, without `after`
+ * @returns the ids of the records in each page
+ */
+async function readPages(store, predicate, options)
+{
+    const pages = [];
+    let page = await store.getPage(predicate, options);
+    pages.push(page.records.map(record => record.id));
+    while(page.next != null)
+    {
+        page = await store.getPage(predicate, { ...options, after: page.next });
+        pages.push(page.records.map(record => record.id));
+    }
+    return pages;
+}
+
+test('ends on the last page, without an empty page after a full one', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords(['a', 'b', 'c', 'd'].map(id => ({ id })));
+
+    assert.deepEqual(await readPages(tasks, null, { limit: 2 }), [['a', 'b'], ['c', 'd']]);
+    assert.deepEqual(await readPages(tasks, null, { limit: 3 }), [['a', 'b', 'c'], ['d']]);
+    assert.deepEqual(await readPages(tasks, null, { limit: 4 }), [['a', 'b', 'c', 'd']]);
+    assert.deepEqual(await readPages(tasks, null, { limit: 10 }), [['a', 'b', 'c', 'd']]);
+    assert.deepEqual(await readPages(tasks, { id: 'none' }, { limit: 2 }), [[]]);
+    // the offset skips records at the start of each page
+    assert.deepEqual(await readPages(tasks, null, { limit: 1, offset: 1 }), [['b'], ['d']]);
+    await data.close();
+});
+
+test('continues from a token between records that share an index key', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords([{ id: '1', n: 2 }, { id: '2', n: 1 }, { id: '3', n: 2 }, { id: '4', n: 2 }, { id: '5', n: 3 }, { id: '6', n: 0 }]);
+
+    assert.deepEqual(await readPages(tasks, { n: { $gte: 1 } }, { limit: 2 }), [['2', '1'], ['3', '4'], ['5']]);
+    // records added after a page was read are picked up by the pages after its token
+    const first = await tasks.getPage({ n: { $gte: 1 } }, { limit: 2 });
+    await tasks.addRecords([{ id: '0', n: 1 }, { id: '7', n: 2 }]);
+    const second = await tasks.getPage({ n: { $gte: 1 } }, { limit: 10, after: first.next });
+    assert.deepEqual(second.records.map(record => record.id), ['3', '4', '7', '5']);
+    assert.equal(second.next, null);
+    await data.close();
+});
+
+test('releases the cursor\'s transaction when a loop breaks out of iterate', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords([1, 2, 3, 4, 5].map(n => ({ id: `t${n}`, n })));
+
+    const iterated = [];
+    for await (const record of tasks.iterate({ n: { $gte: 2 } }))
+    {
+        iterated.push(record.id);
+        if(iterated.length == 2) { break; }
+    }
+    assert.deepEqual(iterated, ['t2', 't3']);
+
+    // a write to the same store would wait for the cursor's transaction if it had been left open
+    const timeout = delay(1000).then(() => { throw new Error('the write waited for the iterator\'s transaction'); });
+    await Promise.race([tasks.addRecord({ id: 't6', n: 6 }), timeout]);
+    assert.equal(await tasks.count(), 6);
+    await data.close();
+});
+
+test('re-opens the cursor when the loop awaits something else between records', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords([1, 2, 3, 4].map(n => ({ id: `t${n}`, n })));
+
+    const iterated = [];
+    for await (const record of tasks.iterate())
+    {
+        iterated.push(record.id);
+        await delay(1);
+        // records changed while the loop is between transactions are read as they are when the cursor reaches them
+        if(record.id == 't2') { await tasks.updateRecord({ id: 't3', n: 30 }); }
+    }
+    assert.deepEqual(iterated, ['t1', 't2', 't3', 't4']);
+    assert.equal((await tasks.getRecord('t3')).n, 30);
+    await data.close();
+});
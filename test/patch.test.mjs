@@ -0,0 +1,66 @@
+// Tests of strict adds, upserts and patches.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+test('rejects patch paths that reach an object\'s prototype', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecord({ id: '1', name: 'one' });
+
+    for(const path of ['__proto__.polluted', 'constructor.prototype.polluted', 'name.__proto__'])
+    {
+        await assert.rejects(tasks.patchRecord('1', { [path]: true }), { name: 'RecordSetterError' });
+    }
+    assert.equal({}.polluted, undefined);
+
+    // a path through an inherited property creates an own object instead
+    await tasks.patchRecord('1', { 'toString.value': 1 });
+    assert.equal({}.toString.value, undefined);
+    assert.deepEqual((await tasks.getRecord('1')).toString, { value: 1 });
+    await data.close();
+});
+
+test('adds records strictly, rejecting ids that are already stored, and upserts them', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    assert.equal(await tasks.addRecord({ id: '1', name: 'one' }), true);
+    await assert.rejects(tasks.addRecord({ id: '1', name: 'again' }), { name: 'ConstraintViolationError' });
+    // a batch with a stored id adds none of its records
+    await assert.rejects(tasks.addRecords([{ id: '2' }, { id: '1' }]), { name: 'ConstraintViolationError' });
+    assert.deepEqual((await tasks.getAllRecords()).map(record => [record.id, record.name]), [['1', 'one']]);
+
+    assert.equal((await tasks.upsertRecord({ id: '1', name: 'replaced' })).name, 'replaced');
+    assert.deepEqual((await tasks.upsertRecords([{ id: '1' }, { id: '2', name: 'two' }])).map(record => record.name), [undefined, 'two']);
+    await data.close();
+});
+
+test('patches properties by name and by dotted path, keeping the rest of the record', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecord({ id: '1', name: 'one', n: 1, details: { priority: 1, owner: 'a' } });
+
+    const patched = await tasks.patchRecord('1', { name: 'uno', 'details.priority': 2, 'details.review.by': 'b', n: undefined });
+    assert.deepEqual(patched, { id: '1', name: 'uno', details: { priority: 2, owner: 'a', review: { by: 'b' } } });
+    assert.deepEqual(await tasks.getRecord('1'), patched);
+    await data.close();
+});
+
+test('patches several records in one transaction, changing none of them if any patch fails', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { useSoftDelete: true });
+    await tasks.addRecords([{ id: '1', n: 1 }, { id: '2', n: 2 }, { id: '3', n: 3 }]);
+    await tasks.removeRecord('3');
+
+    await assert.rejects(tasks.patchRecords([{ id: '1', patch: { n: 10 } }, { id: 'missing', patch: { n: 0 } }]), { name: 'RecordSetterError' });
+    await assert.rejects(tasks.patchRecord('3', { n: 30 }), { name: 'RecordSetterError' });
+    assert.deepEqual((await tasks.getAllRecords('id')).map(record => record.n), [1, 2]);
+
+    const patched = await tasks.patchRecords([{ id: '1', patch: { n: 10 } }, { id: '2', patch: { n: 20 } }]);
+    assert.deepEqual(patched.map(record => record.n), [10, 20]);
+    await data.close();
+});
@@ -0,0 +1,17 @@
+// Tests of query predicates, sort keys and key ranges.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+test('matches every operator of a condition that is read as a key range', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords([1, 2, 3, 5, 7, 10, 12].map(n => ({ id: `t${n}`, name: `${n % 2 ? 'a' : 'b'}${n}`, n })));
+
+    assert.deepEqual((await tasks.query({ n: { $between: [5, 10], $gt: 1 } }, 'n')).map(record => record.n), [5, 7, 10]);
+    assert.deepEqual((await tasks.query({ n: { $gte: 2, $gt: 2, $lt: 12, $lte: 7 } }, 'n')).map(record => record.n), [3, 5, 7]);
+    assert.deepEqual((await tasks.query({ name: { $startsWith: 'b', $gt: 'a' } }, 'name')).map(record => record.name), ['b10', 'b12', 'b2']);
+    assert.deepEqual(await tasks.query({ n: { $gt: 7, $lt: 5 } }), []);
+    await data.close();
+});
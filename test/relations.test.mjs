@@ -0,0 +1,20 @@
+// Tests of relations between stores, and their onDelete rules.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+test('cascades removals through a store whose tables include the related store', async () =>
+{
+    const { data } = await open({ schema: { users: "id", tasks: "id, userId", attachments: "id, taskId" } });
+    const attachments = data.addStore('attachments', ['attachments']);
+    const tasks = data.addStore('tasks', ['tasks'], { relations: { attachments: { type: 'hasMany', store: 'attachments', key: 'taskId', onDelete: 'cascade' } } });
+    const users = data.addStore('users', ['users', 'tasks'], { relations: { tasks: { type: 'hasMany', store: 'tasks', key: 'userId', onDelete: 'cascade' } } });
+    await users.addRecord({ id: 'u1' });
+    await tasks.addRecord({ id: 't1', userId: 'u1' });
+    await attachments.addRecord({ id: 'a1', taskId: 't1' });
+
+    await users.removeRecord('u1');
+    assert.equal(await tasks.getRecord('t1'), null);
+    assert.equal(await attachments.getRecord('a1'), null);
+    await data.close();
+});
@@ -0,0 +1,67 @@
+// Tests of searching the words in records' text properties.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+const searchSchema = { tasks: "id, name, n, searchTokens" };
+
+test('finds the records that contain any of the words, ranked by how many they contain', async () =>
+{
+    const { data } = await open({ schema: searchSchema });
+    const tasks = data.addStore('tasks', ['tasks'], { search: ['name', 'tags'] });
+    await tasks.addRecords([
+        { id: '1', name: 'Test the user list', tags: ['admin'] },
+        { id: '2', name: 'Write a test', tags: [] },
+        { id: '3', name: 'Users, users, USERS', tags: ['test'] },
+        { id: '4', name: 'Unrelated', n: 4 },
+    ]);
+
+    assert.deepEqual((await tasks.getRecord('3')).searchTokens, ['users', 'test']);
+    const results = (await tasks.search('TEST user')).map(record => record.id);
+    assert.equal(results[0], '1');
+    assert.deepEqual(results.slice(1).sort(), ['2', '3']);
+    assert.deepEqual((await tasks.search('admin')).map(record => record.id), ['1']);
+    assert.deepEqual(await tasks.search('nothing'), []);
+    assert.deepEqual(await tasks.search('  '), []);
+    assert.equal((await tasks.search('test user', { limit: 1 })).length, 1);
+    await data.close();
+});
+
+test('matches longer words with the prefix option, ranking exact matches first', async () =>
+{
+    const { data } = await open({ schema: searchSchema });
+    const tasks = data.addStore('tasks', ['tasks'], { search: ['name'] });
+    await tasks.addRecords([{ id: '1', name: 'usrs' }, { id: '2', name: 'usr' }, { id: '3', name: 'user' }]);
+
+    assert.deepEqual((await tasks.search('usr')).map(record => record.id), ['2']);
+    assert.deepEqual((await tasks.search('usr', { prefix: true })).map(record => record.id), ['2', '1']);
+    await data.close();
+});
+
+test('updates the tokens when records change, and leaves out soft-deleted records', async () =>
+{
+    const { data } = await open({ schema: searchSchema });
+    const tasks = data.addStore('tasks', ['tasks'], { search: ['name'], useSoftDelete: true });
+    await tasks.addRecords([{ id: '1', name: 'draft' }, { id: '2', name: 'draft' }]);
+    await tasks.patchRecord('1', { name: 'final' });
+    await tasks.removeRecord('2');
+
+    assert.deepEqual((await tasks.search('final')).map(record => record.id), ['1']);
+    assert.deepEqual(await tasks.search('draft'), []);
+    assert.deepEqual((await tasks.search('draft', { includeDeleted: true })).map(record => record.id), ['2']);
+    await data.close();
+});
+
+test('reindexes the records that were stored before the search option was added', async () =>
+{
+    const { data, backend } = await open({ schema: searchSchema });
+    await data.addStore('tasks', ['tasks']).addRecords([{ id: '1', name: 'Old task' }, { id: '2', name: 'Another' }]);
+    await data.close();
+
+    const { data: reopened } = await open({ schema: searchSchema, backend });
+    const tasks = reopened.addStore('tasks', ['tasks'], { search: ['name'], searchTokensPropertyName: 'searchTokens' });
+    assert.deepEqual(await tasks.search('old'), []);
+    assert.equal(await tasks.reindexSearch(), 2);
+    assert.deepEqual((await tasks.search('old')).map(record => record.id), ['1']);
+    await reopened.close();
+});
@@ -0,0 +1,94 @@
+// Tests of the settings object that is kept in the key/value store.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { open } from './helpers.mjs';
+
+const defaults = { theme: 'light', fontSize: 14, recentFiles: [] };
+
+test('reads the stored values, or the defaults of the settings that have not been set', async () =>
+{
+    const { data } = await open();
+    await data.setValue('fontSize', 18);
+    const prefs = await data.settings(defaults);
+
+    assert.equal(prefs.theme, 'light');
+    assert.equal(prefs.fontSize, 18);
+    assert.deepEqual(prefs.recentFiles, []);
+    assert.deepEqual({ ...prefs }, { theme: 'light', fontSize: 18, recentFiles: [] });
+    prefs.dispose();
+    await data.close();
+});
+
+test('writes the settings changed in the same tick together', async () =>
+{
+    const { data } = await open();
+    const prefs = await data.settings(defaults);
+    const events = [];
+    data.on('change', (event) => { events.push([event.operation, event.ids]); });
+
+    prefs.theme = 'dark';
+    prefs.fontSize = 16;
+    prefs.recentFiles = ['/notes.md'];
+    // the object has the new values before they are stored
+    assert.equal(prefs.theme, 'dark');
+    await prefs.flush();
+    // the change is reported once its transaction has been committed
+    await delay(10);
+    assert.deepEqual(events, [['set', ['theme', 'fontSize', 'recentFiles']]]);
+    assert.deepEqual(await data.getValues(['theme', 'fontSize', 'recentFiles']), ['dark', 16, ['/notes.md']]);
+
+    const reopened = await data.settings(defaults);
+    assert.equal(reopened.theme, 'dark');
+    reopened.dispose();
+    prefs.dispose();
+    await data.close();
+});
+
+test('resets settings to their defaults', async () =>
+{
+    const { data } = await open();
+    const prefs = await data.settings(defaults);
+    prefs.theme = 'dark';
+    prefs.fontSize = 20;
+    await prefs.flush();
+
+    prefs.reset('theme');
+    assert.equal(prefs.theme, 'light');
+    await prefs.flush();
+    assert.equal(await data.getValue('theme'), null);
+    assert.equal(await data.getValue('fontSize'), 20);
+
+    prefs.fontSize = undefined;
+    assert.equal(prefs.fontSize, 14);
+    prefs.theme = 'dark';
+    prefs.reset();
+    await prefs.flush();
+    assert.deepEqual({ ...prefs }, defaults);
+    assert.deepEqual(await data.getValues(['theme', 'fontSize']), [null, null]);
+    prefs.dispose();
+    await data.close();
+});
+
+test('reports changes made through the object and through the store', async () =>
+{
+    const { data } = await open();
+    const prefs = await data.settings(defaults);
+    const changes = [];
+    const unsubscribe = prefs.subscribe((key, value) => { changes.push([key, value]); });
+
+    prefs.theme = 'dark';
+    await prefs.flush();
+    await data.setValue('fontSize', 12);
+    await delay(10);
+    assert.equal(prefs.fontSize, 12);
+    assert.deepEqual(changes, [['theme', 'dark'], ['fontSize', 12]]);
+
+    unsubscribe();
+    prefs.theme = 'light';
+    await prefs.flush();
+    assert.equal(changes.length, 2);
+    await assert.rejects(data.settings({ reset: 1 }), { name: 'RecordSetterError' });
+    prefs.dispose();
+    await data.close();
+});
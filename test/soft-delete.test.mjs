@@ -0,0 +1,43 @@
+// Tests of soft delete, the trash, and purging.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecordSetter } from './.build/record-setter.mjs';
+import { open, schema } from './helpers.mjs';
+
+test('exposes the purge of expired soft-deleted records', async () =>
+{
+    const { data, backend } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { useSoftDelete: true });
+    await tasks.addRecords([{ id: '1' }, { id: '2' }]);
+    await tasks.removeRecord('1');
+    assert.equal(tasks.retentionPurge, null);
+    await data.close();
+
+    const reopened = await RecordSetter.activate({ name: 'test', version: 1, schema, backend });
+    const purged = reopened.addStore('tasks', ['tasks'], { useSoftDelete: true, softDeleteRetention: 0 });
+    assert.deepEqual(await purged.retentionPurge, ['1']);
+    // a purge that fails rejects its promise, instead of being logged
+    const missing = reopened.addStore('missing', ['missing'], { useSoftDelete: true, softDeleteRetention: 0 });
+    await assert.rejects(missing.retentionPurge);
+    await reopened.close();
+});
+
+test('skips the ids of missing records when removing and restoring them', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { useSoftDelete: true, versioned: true });
+    await tasks.addRecords([{ id: '1' }, { id: '2' }]);
+
+    assert.equal(await tasks.restoreRecord('missing'), false);
+    assert.equal(await tasks.removeRecord('missing'), false);
+    assert.deepEqual(await tasks.removeRecords(['1', 'missing']), [true, false]);
+    assert.deepEqual((await tasks.listDeleted()).map(record => record.id), ['1']);
+    assert.equal(await tasks.getRecord('missing', { includeDeleted: true }), null);
+
+    assert.deepEqual(await tasks.restoreRecords(['missing', '1']), [false, true]);
+    const restored = await tasks.getRecord('1');
+    assert.equal('deletedTimestamp' in restored, false);
+    assert.equal(restored.revision, 3);
+    assert.deepEqual(await tasks.listDeleted(), []);
+    await data.close();
+});
@@ -0,0 +1,53 @@
+// Tests of sorting records by one or more keys.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { open } from './helpers.mjs';
+
+const records = [
+    { id: 'a', name: 'beta', n: 10, group: 1, due: new Date('2024-03-01') },
+    { id: 'b', name: 'Alpha', n: 9, group: 2, due: new Date('2024-01-01') },
+    { id: 'c', name: 'alpha', n: 100, group: 1 },
+    { id: 'd', name: 'gamma', n: 9, group: 2, due: new Date('2024-02-01') },
+    { id: 'e', n: 1, group: 1 },
+];
+
+test('breaks ties in each sort key with the keys after it, in their own directions', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords(records);
+
+    assert.deepEqual((await tasks.getAllRecords([{ key: 'group', direction: 'desc' }, 'n'])).map(record => record.id), ['b', 'd', 'e', 'a', 'c']);
+    assert.deepEqual((await tasks.getAllRecords(['group', { key: 'n', direction: 'desc' }])).map(record => record.id), ['c', 'a', 'e', 'b', 'd']);
+    assert.deepEqual((await tasks.query({ group: 2 }, [{ key: 'n' }, { key: 'name', direction: 'desc' }])).map(record => record.id), ['d', 'b']);
+    assert.deepEqual((await tasks.getRecords(['a', 'b', 'c'], [{ key: 'n', direction: 'desc' }])).map(record => record.id), ['c', 'a', 'b']);
+    await data.close();
+});
+
+test('compares values by their type, and sorts missing values at the end of the ascending order', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords(records);
+
+    // numbers numerically, rather than as text
+    assert.deepEqual((await tasks.getAllRecords('n')).map(record => record.n), [1, 9, 9, 10, 100]);
+    // strings by character code, so uppercase letters come first
+    assert.deepEqual((await tasks.getAllRecords('name')).map(record => record.id), ['b', 'c', 'a', 'd', 'e']);
+    assert.deepEqual((await tasks.getAllRecords({ key: 'due' })).map(record => record.id), ['b', 'd', 'a', 'c', 'e']);
+    // descending sorts reverse the whole order, so missing values come first
+    assert.deepEqual((await tasks.getAllRecords([{ key: 'due', direction: 'desc' }, 'id'])).map(record => record.id), ['c', 'e', 'a', 'd', 'b']);
+    assert.deepEqual((await tasks.query({}, { key: 'name', direction: 'desc' }, { limit: 2 })).map(record => record.id), ['e', 'd']);
+    await data.close();
+});
+
+test('reads an indexed first sort key in order, within the limit', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks']);
+    await tasks.addRecords(records);
+
+    assert.deepEqual((await tasks.query({}, [{ key: 'n', direction: 'desc' }, 'name'], { limit: 3 })).map(record => record.id), ['c', 'a', 'b']);
+    assert.deepEqual((await tasks.query({}, ['n', { key: 'name', direction: 'desc' }], { limit: 2, offset: 1 })).map(record => record.id), ['d', 'b']);
+    await data.close();
+});
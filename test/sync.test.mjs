@@ -0,0 +1,61 @@
+// Tests of applying the changes that SyncManager pulls.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SyncManager } from './.build/record-setter.mjs';
+import { open } from './helpers.mjs';
+
+/**
+ * Create a SyncManager whose transport pulls changes once, and pushes nothing anywhere
+ * @param data a RecordSetter opened with the changeLog option
+ * @param changes the changes to pull
+ * @returns the SyncManager
+ */
+function pullOnce(data, changes)
+{
+    const pulls = [{ changes, checkpoint: '1' }];
+    return new SyncManager(data, { push: async () => {}, pull: async () => pulls.shift() ?? { changes: [], checkpoint: '1' } });
+}
+
+test('writes pulled records through their store, without logging them again', async () =>
+{
+    const { data } = await open({ schema: { tasks: "id, name, n, searchTokens" }, changeLog: true });
+    const saved = [];
+    const tasks = data.addStore('tasks', ['tasks'], { versioned: true, timestamps: true, search: ['name'], beforeSave: (record) => { saved.push(record.id); } });
+    const events = [];
+    data.on('change', (event) => { events.push([event.storeName, event.operation, event.ids]); });
+
+    const timestamp = Date.now();
+    const sync = pullOnce(data, [
+        { storeName: 'tasks', id: '1', operation: 'add', payload: { id: '1', name: 'Remote draft' }, timestamp },
+        { storeName: 'tasks', id: '2', operation: 'add', payload: { id: '2', name: 'Other' }, timestamp },
+        { storeName: 'tasks', id: '2', operation: 'remove', payload: null, timestamp },
+    ]);
+    assert.deepEqual(await sync.pull(), { pulled: 3, conflicts: 0 });
+
+    assert.deepEqual((await tasks.search('draft')).map(record => record.id), ['1']);
+    const record = await tasks.getRecord('1');
+    assert.equal(record.revision, 1);
+    assert.ok(record.createdTimestamp >= timestamp);
+    assert.equal(await tasks.getRecord('2'), null);
+    assert.deepEqual(saved, ['1', '2']);
+    assert.deepEqual(events, [['tasks', 'update', ['1']], ['tasks', 'update', ['2']], ['tasks', 'remove', ['2']]]);
+    assert.deepEqual(await sync.getPendingChanges(), []);
+    await data.close();
+});
+
+test('writes pulled tombstones as soft deletes', async () =>
+{
+    const { data } = await open({ changeLog: true });
+    const removed = [];
+    const tasks = data.addStore('tasks', ['tasks'], { useSoftDelete: true, beforeRemove: (record) => { removed.push(record.id); } });
+    await tasks.addRecord({ id: '1', name: 'a' });
+    await pullOnce(data, []).push();
+
+    const deletedTimestamp = Date.now();
+    await pullOnce(data, [{ storeName: 'tasks', id: '1', operation: 'remove', payload: { id: '1', name: 'a', deletedTimestamp }, timestamp: deletedTimestamp }]).pull();
+
+    assert.deepEqual(removed, ['1']);
+    assert.equal(await tasks.getRecord('1'), null);
+    assert.equal((await tasks.getRecord('1', { includeDeleted: true })).deletedTimestamp, deletedTimestamp);
+    await data.close();
+});
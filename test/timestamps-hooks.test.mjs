@@ -0,0 +1,84 @@
+// Tests of the timestamps a store maintains, and of its hooks.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as delay } from 'node:timers/promises';
+import { open, schema } from './helpers.mjs';
+
+test('sets the created and updated timestamps of added, updated and restored records', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { timestamps: true, useSoftDelete: true });
+    const addedAt = Date.now();
+    await tasks.addRecord({ id: '1', name: 'one' });
+    const added = await tasks.getRecord('1');
+    assert.ok(added.createdTimestamp >= addedAt);
+    assert.equal(added.updatedTimestamp, added.createdTimestamp);
+
+    await delay(5);
+    // an update without the created timestamp keeps the stored one
+    const updated = await tasks.updateRecord({ id: '1', name: 'uno' });
+    assert.equal(updated.createdTimestamp, added.createdTimestamp);
+    assert.ok(updated.updatedTimestamp > added.updatedTimestamp);
+
+    await tasks.removeRecord('1');
+    await delay(5);
+    await tasks.restoreRecord('1');
+    const restored = await tasks.getRecord('1');
+    assert.ok(restored.updatedTimestamp > updated.updatedTimestamp);
+    await data.close();
+});
+
+test('uses the configured timestamp property names', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { timestamps: true, createdTimestampPropertyName: 'createdAt', updatedTimestampPropertyName: 'updatedAt' });
+    await tasks.addRecord({ id: '1' });
+    const record = await tasks.getRecord('1');
+    assert.deepEqual(Object.keys(record).sort(), ['createdAt', 'id', 'updatedAt']);
+    await data.close();
+});
+
+test('calls the hooks with each record, in the operation\'s transaction', async () =>
+{
+    const { data } = await open({ schema: { ...schema, log: "id" } });
+    const calls = [];
+    const tasks = data.addStore('tasks', ['tasks', 'log'], {
+        useSoftDelete: true,
+        beforeSave: (record, { operation, storeName }) => { calls.push(['beforeSave', record.id, operation, storeName]); record.name = record.name?.trim(); },
+        afterSave: (record, { transaction, operation }) => { calls.push(['afterSave', record.id, operation]); transaction.objectStore('log').put({ id: `${record.id}:${operation}` }); },
+        beforeRemove: (record, { operation }) => { calls.push(['beforeRemove', record.id, operation]); },
+        afterRemove: (record, { operation }) => { calls.push(['afterRemove', record.id, operation]); },
+    });
+
+    await tasks.addRecords([{ id: '1', name: '  one ' }, { id: '2', name: 'two' }]);
+    assert.equal((await tasks.getRecord('1')).name, 'one');
+    await tasks.removeRecord('1');
+    await tasks.restoreRecord('1');
+    await tasks.removeRecord('2', true);
+    assert.deepEqual(calls, [
+        ['beforeSave', '1', 'add', 'tasks'], ['beforeSave', '2', 'add', 'tasks'], ['afterSave', '1', 'add'], ['afterSave', '2', 'add'],
+        ['beforeRemove', '1', 'remove'], ['afterRemove', '1', 'remove'],
+        ['beforeSave', '1', 'restore', 'tasks'], ['afterSave', '1', 'restore'],
+        ['beforeRemove', '2', 'remove'], ['afterRemove', '2', 'remove'],
+    ]);
+    const log = data.addStore('log', ['log']);
+    assert.deepEqual((await log.getAllRecords('id')).map(record => record.id), ['1:add', '1:restore', '2:add']);
+    await data.close();
+});
+
+test('rolls back the whole operation when a hook throws', async () =>
+{
+    const { data } = await open({ schema: { ...schema, log: "id" } });
+    const tasks = data.addStore('tasks', ['tasks', 'log'], {
+        afterSave: (record, { transaction }) =>
+        {
+            transaction.objectStore('log').put({ id: record.id });
+            if(record.name == 'invalid') { throw new Error('invalid name'); }
+        },
+    });
+
+    await assert.rejects(tasks.addRecords([{ id: '1', name: 'valid' }, { id: '2', name: 'invalid' }]), { message: 'invalid name' });
+    assert.deepEqual(await tasks.getAllRecords(), []);
+    assert.deepEqual(await data.addStore('log', ['log']).getAllRecords(), []);
+    await data.close();
+});
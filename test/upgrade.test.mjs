@@ -0,0 +1,35 @@
+// Tests of upgrading the schema of an existing database.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { RecordSetter } from './.build/record-setter.mjs';
+import { open, schema, pushChanges } from './helpers.mjs';
+
+test('keeps the change log when its option is turned off, until a migration deletes it', async () =>
+{
+    const { data, backend } = await open({ changeLog: true, history: { persist: true } });
+    await data.addStore('tasks', ['tasks']).addRecord({ id: '1' });
+    await data.close();
+
+    const upgraded = await RecordSetter.activate({ name: 'test', version: 2, schema, backend });
+    assert.doesNotThrow(() => upgraded.openTransaction(['_changes', '_history'], 'readonly'));
+    await upgraded.close();
+
+    // turning the option back on picks up the changes that were still waiting to be pushed
+    const restored = await RecordSetter.activate({ name: 'test', version: 3, schema, backend, changeLog: true });
+    assert.deepEqual((await pushChanges(restored)).map(change => change.id), ['1']);
+    await restored.close();
+
+    const removed = await RecordSetter.activate({ name: 'test', version: 4, schema, backend, migrations: { 4: (_transaction, database) => { database.deleteObjectStore('_changes'); } } });
+    assert.throws(() => removed.openTransaction(['_changes'], 'readonly'), { name: 'StoreNotFoundError' });
+    assert.doesNotThrow(() => removed.openTransaction(['_history'], 'readonly'));
+    await removed.close();
+});
+
+test('indexes the properties of compound indexes, but not of a compound primary key', async () =>
+{
+    const { data } = await open({ schema: { ...schema, links: "[from+to], [kind+weight], label" } });
+    const objectStore = data.openTransaction(['links'], 'readonly').objectStore('links');
+    assert.deepEqual(objectStore.keyPath, ['from', 'to']);
+    assert.deepEqual(Array.from(objectStore.indexNames).sort(), ['kind', 'kind+weight', 'label', 'weight']);
+    await data.close();
+});
@@ -0,0 +1,54 @@
+// Tests of the revisions that versioned stores keep, and of version conflicts.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { VersionConflictError } from './.build/record-setter.mjs';
+import { open } from './helpers.mjs';
+
+test('increments the revision each time a record is stored', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { versioned: true });
+    const task = { id: '1', name: 'one' };
+    await tasks.addRecord(task);
+    // the stored records' revisions are set on the records that were passed, so they can be stored again
+    assert.equal(task.revision, 1);
+    task.name = 'uno';
+    assert.equal((await tasks.updateRecord(task)).revision, 2);
+    assert.equal(task.revision, 2);
+    assert.equal((await tasks.patchRecord('1', { n: 1 })).revision, 3);
+    await data.close();
+});
+
+test('rejects a record that was changed since it was read, with the stored record', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { versioned: true });
+    await tasks.addRecord({ id: '1', name: 'one' });
+    const first = await tasks.getRecord('1');
+    const second = await tasks.getRecord('1');
+    await tasks.updateRecord({ ...first, name: 'first' });
+
+    const error = await tasks.updateRecord({ ...second, name: 'second' }).catch(error => error);
+    assert.ok(error instanceof VersionConflictError);
+    assert.equal(error.storeName, 'tasks');
+    assert.deepEqual(error.currentRecord, { id: '1', name: 'first', revision: 2 });
+    assert.equal((await tasks.getRecord('1')).name, 'first');
+    await data.close();
+});
+
+test('stores none of a batch when any record conflicts, and keeps their revisions', async () =>
+{
+    const { data } = await open();
+    const tasks = data.addStore('tasks', ['tasks'], { versioned: true, revisionPropertyName: 'version' });
+    await tasks.addRecords([{ id: '1' }, { id: '2' }]);
+    const records = await tasks.getRecords(['1', '2']);
+    await tasks.updateRecord({ ...records[1], name: 'changed' });
+
+    const batch = records.map(record => ({ ...record, name: 'batch' }));
+    await assert.rejects(tasks.updateRecords(batch), { name: 'VersionConflictError' });
+    assert.deepEqual(batch.map(record => record.version), [1, 1]);
+    assert.deepEqual((await tasks.getRecords(['1', '2'])).map(record => [record.name, record.version]), [[undefined, 1], ['changed', 2]]);
+    // adding a record that is already stored is a constraint violation, rather than a conflict
+    await assert.rejects(tasks.addRecord({ id: '1' }), { name: 'ConstraintViolationError' });
+    await data.close();
+});